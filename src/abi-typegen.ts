@@ -0,0 +1,148 @@
+import { ABI, ABIDef } from '@wharfkit/antelope';
+import type { DecodedValues } from './contract';
+
+export interface TypeGenOptions {
+    name?: string;
+    values?: DecodedValues;
+}
+
+const JSON_TYPES: { [type: string]: string } = {
+    bool: 'boolean',
+    int8: 'number',
+    int16: 'number',
+    int32: 'number',
+    uint8: 'number',
+    uint16: 'number',
+    uint32: 'number',
+    varint32: 'number',
+    varuint32: 'number',
+    float32: 'number',
+    float64: 'number',
+    // nodeos writes 64-bit and wider integers as strings once they outgrow a double.
+    int64: 'number | string',
+    uint64: 'number | string',
+    int128: 'string',
+    uint128: 'string',
+    float128: 'string',
+    name: 'string',
+    string: 'string',
+    bytes: 'string',
+    symbol: 'string',
+    symbol_code: 'string',
+    asset: 'string',
+    extended_asset: '{ quantity: string; contract: string }',
+    checksum160: 'string',
+    checksum256: 'string',
+    checksum512: 'string',
+    public_key: 'string',
+    signature: 'string',
+    time_point: 'string',
+    time_point_sec: 'string',
+    block_timestamp_type: 'string',
+};
+
+const WHARFKIT_TYPES: { [type: string]: string } = {
+    bool: 'boolean',
+    int8: 'Int8',
+    int16: 'Int16',
+    int32: 'Int32',
+    int64: 'Int64',
+    int128: 'Int128',
+    uint8: 'UInt8',
+    uint16: 'UInt16',
+    uint32: 'UInt32',
+    uint64: 'UInt64',
+    uint128: 'UInt128',
+    varint32: 'VarInt',
+    varuint32: 'VarUInt',
+    float32: 'Float32',
+    float64: 'Float64',
+    float128: 'Float128',
+    name: 'Name',
+    string: 'string',
+    bytes: 'Bytes',
+    symbol: 'Asset.Symbol',
+    symbol_code: 'Asset.SymbolCode',
+    asset: 'Asset',
+    extended_asset: 'ExtendedAsset',
+    checksum160: 'Checksum160',
+    checksum256: 'Checksum256',
+    checksum512: 'Checksum512',
+    public_key: 'PublicKey',
+    signature: 'Signature',
+    time_point: 'TimePoint',
+    time_point_sec: 'TimePointSec',
+    block_timestamp_type: 'BlockTimestamp',
+};
+
+const toProperty = (name: string): string => /^[A-Za-z_$][A-Za-z0-9_$]*$/.test(name) ? name : `'${name}'`;
+
+export const toTypeName = (name: string): string => {
+    return name.split(/[^A-Za-z0-9]+/).filter(Boolean).map(part => part[0].toUpperCase() + part.slice(1)).join('');
+};
+
+// Builds TypeScript declarations for the structs of an ABI plus `<Name>Actions` and `<Name>Tables` maps,
+// which plug into ContractBinding or subscribeTable<T>.
+export const abiToTypeScript = (abiDef: ABIDef, options: TypeGenOptions = {}): string => {
+    const abi = ABI.from(abiDef);
+    const wharfkit = options.values === 'wharfkit';
+    const builtins = wharfkit ? WHARFKIT_TYPES : JSON_TYPES;
+    const prefix = options.name ? toTypeName(options.name) : '';
+    const imports: Set<string> = new Set();
+
+    const resolve = (type: string): string => {
+        if (type.endsWith('[]')) {
+            const item = resolve(type.slice(0, -2));
+            return item.includes(' ') ? `(${item})[]` : `${item}[]`;
+        }
+        if (type.endsWith('?')) return `${resolve(type.slice(0, -1))} | null`;
+
+        const builtin = builtins[type];
+        if (builtin) {
+            if (wharfkit && /^[A-Z]/.test(builtin)) imports.add(builtin.split('.')[0]);
+            return builtin;
+        }
+
+        const known = abi.structs.some(item => item.name === type)
+            || abi.types.some(item => item.new_type_name === type)
+            || abi.variants.some(item => item.name === type);
+        return known ? toTypeName(type) : 'unknown';
+    };
+
+    const lines: string[] = [];
+
+    abi.types.forEach(alias => {
+        lines.push(`export type ${toTypeName(alias.new_type_name)} = ${resolve(alias.type)};`, '');
+    });
+
+    abi.variants.forEach(variant => {
+        // nodeos writes a variant as a [type, value] pair.
+        const members = wharfkit ? ['unknown'] : variant.types.map(type => `['${type}', ${resolve(type)}]`);
+        lines.push(`export type ${toTypeName(variant.name)} = ${members.join(' | ')};`, '');
+    });
+
+    abi.structs.forEach(struct => {
+        const base = struct.base ? ` extends ${toTypeName(struct.base)}` : '';
+        lines.push(`export interface ${toTypeName(struct.name)}${base} {`);
+        struct.fields.forEach(field => {
+            const extension = field.type.endsWith('$');
+            const type = resolve(extension ? field.type.slice(0, -1) : field.type);
+            lines.push(`    ${toProperty(field.name)}${extension ? '?' : ''}: ${type};`);
+        });
+        lines.push('}', '');
+    });
+
+    lines.push(`export interface ${prefix}Actions {`);
+    abi.actions.forEach(action => lines.push(`    ${toProperty(String(action.name))}: ${resolve(action.type)};`));
+    lines.push('}', '');
+
+    lines.push(`export interface ${prefix}Tables {`);
+    abi.tables.forEach(table => lines.push(`    ${toProperty(String(table.name))}: ${resolve(table.type)};`));
+    lines.push('}', '');
+
+    const header = imports.size > 0
+        ? [`import { ${Array.from(imports).sort().join(', ')} } from '@wharfkit/antelope';`, '']
+        : [];
+
+    return [...header, ...lines].join('\n');
+};
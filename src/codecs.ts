@@ -0,0 +1,335 @@
+export interface MessageCodec {
+    readonly name: string;
+    encode(message: any): string | Uint8Array;
+    decode(data: string | Uint8Array): any;
+}
+
+// A MessagePack extension value of an application-defined type.
+export interface MessagePackExtension {
+    type: number;
+    data: Uint8Array;
+}
+
+const textEncoder = new TextEncoder();
+const textDecoder = new TextDecoder();
+
+export const toBytes = (data: any): Uint8Array | null => {
+    if (data instanceof Uint8Array) return data;
+    if (data instanceof ArrayBuffer) return new Uint8Array(data);
+    if (ArrayBuffer.isView(data)) return new Uint8Array(data.buffer, data.byteOffset, data.byteLength);
+    return null;
+};
+
+export const JsonCodec: MessageCodec = {
+    name: 'json',
+    encode: (message) => JSON.stringify(message),
+    decode: (data) => JSON.parse(typeof data === 'string' ? data : textDecoder.decode(data)),
+};
+
+class ByteWriter {
+    private buffer: Uint8Array = new Uint8Array(256);
+    private view: DataView = new DataView(this.buffer.buffer);
+    private length: number = 0;
+
+    public get bytes(): Uint8Array {
+        return this.buffer.subarray(0, this.length);
+    }
+
+    public uint8(value: number) {
+        this.reserve(1);
+        this.view.setUint8(this.length, value);
+        this.length += 1;
+    }
+
+    public uint16(value: number) {
+        this.reserve(2);
+        this.view.setUint16(this.length, value);
+        this.length += 2;
+    }
+
+    public uint32(value: number) {
+        this.reserve(4);
+        this.view.setUint32(this.length, value);
+        this.length += 4;
+    }
+
+    public int8(value: number) {
+        this.reserve(1);
+        this.view.setInt8(this.length, value);
+        this.length += 1;
+    }
+
+    public int16(value: number) {
+        this.reserve(2);
+        this.view.setInt16(this.length, value);
+        this.length += 2;
+    }
+
+    public int32(value: number) {
+        this.reserve(4);
+        this.view.setInt32(this.length, value);
+        this.length += 4;
+    }
+
+    public uint64(value: bigint) {
+        this.reserve(8);
+        this.view.setBigUint64(this.length, value);
+        this.length += 8;
+    }
+
+    public int64(value: bigint) {
+        this.reserve(8);
+        this.view.setBigInt64(this.length, value);
+        this.length += 8;
+    }
+
+    public float64(value: number) {
+        this.reserve(8);
+        this.view.setFloat64(this.length, value);
+        this.length += 8;
+    }
+
+    public raw(bytes: Uint8Array) {
+        this.reserve(bytes.length);
+        this.buffer.set(bytes, this.length);
+        this.length += bytes.length;
+    }
+
+    private reserve(size: number) {
+        if (this.length + size <= this.buffer.length) return;
+
+        let capacity = this.buffer.length * 2;
+        while (capacity < this.length + size) capacity *= 2;
+
+        const buffer = new Uint8Array(capacity);
+        buffer.set(this.bytes);
+        this.buffer = buffer;
+        this.view = new DataView(buffer.buffer);
+    }
+}
+
+const writeLength = (writer: ByteWriter, length: number, fix: number | null, fixLimit: number, codes: number[]) => {
+    if (fix !== null && length < fixLimit) {
+        writer.uint8(fix | length);
+    } else if (codes[0] !== 0 && length < 0x100) {
+        writer.uint8(codes[0]);
+        writer.uint8(length);
+    } else if (length < 0x10000) {
+        writer.uint8(codes[1]);
+        writer.uint16(length);
+    } else {
+        writer.uint8(codes[2]);
+        writer.uint32(length);
+    }
+};
+
+const writeInteger = (writer: ByteWriter, value: bigint) => {
+    if (value >= 0n) {
+        if (value < 0x80n) writer.uint8(Number(value));
+        else if (value < 0x100n) { writer.uint8(0xcc); writer.uint8(Number(value)); }
+        else if (value < 0x10000n) { writer.uint8(0xcd); writer.uint16(Number(value)); }
+        else if (value < 0x100000000n) { writer.uint8(0xce); writer.uint32(Number(value)); }
+        else { writer.uint8(0xcf); writer.uint64(value); }
+    } else {
+        if (value >= -0x20n) writer.int8(Number(value));
+        else if (value >= -0x80n) { writer.uint8(0xd0); writer.int8(Number(value)); }
+        else if (value >= -0x8000n) { writer.uint8(0xd1); writer.int16(Number(value)); }
+        else if (value >= -0x80000000n) { writer.uint8(0xd2); writer.int32(Number(value)); }
+        else { writer.uint8(0xd3); writer.int64(value); }
+    }
+};
+
+const writeValue = (writer: ByteWriter, value: any) => {
+    if (value === null || value === undefined) {
+        writer.uint8(0xc0);
+    } else if (typeof value === 'boolean') {
+        writer.uint8(value ? 0xc3 : 0xc2);
+    } else if (typeof value === 'number') {
+        if (Number.isSafeInteger(value)) {
+            writeInteger(writer, BigInt(value));
+        } else {
+            writer.uint8(0xcb);
+            writer.float64(value);
+        }
+    } else if (typeof value === 'bigint') {
+        writeInteger(writer, value);
+    } else if (typeof value === 'string') {
+        const bytes = textEncoder.encode(value);
+        writeLength(writer, bytes.length, 0xa0, 32, [0xd9, 0xda, 0xdb]);
+        writer.raw(bytes);
+    } else if (toBytes(value)) {
+        const bytes = toBytes(value)!;
+        writeLength(writer, bytes.length, null, 0, [0xc4, 0xc5, 0xc6]);
+        writer.raw(bytes);
+    } else if (Array.isArray(value)) {
+        writeLength(writer, value.length, 0x90, 16, [0, 0xdc, 0xdd]);
+        value.forEach(item => writeValue(writer, item));
+    } else if (typeof value.toJSON === 'function') {
+        writeValue(writer, value.toJSON());
+    } else {
+        // Like JSON, properties that are undefined are left out.
+        const keys = Object.keys(value).filter(key => value[key] !== undefined);
+        writeLength(writer, keys.length, 0x80, 16, [0, 0xde, 0xdf]);
+        keys.forEach(key => {
+            writeValue(writer, key);
+            writeValue(writer, value[key]);
+        });
+    }
+};
+
+class ByteReader {
+    private view: DataView;
+    private bytes: Uint8Array;
+    private offset: number = 0;
+
+    constructor(bytes: Uint8Array) {
+        this.bytes = bytes;
+        this.view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    }
+
+    public get done(): boolean {
+        return this.offset >= this.bytes.length;
+    }
+
+    public read(): any {
+        const code = this.uint8();
+
+        if (code < 0x80) return code;
+        if (code >= 0xe0) return code - 0x100;
+        if (code >= 0xa0 && code <= 0xbf) return this.string(code & 0x1f);
+        if (code >= 0x90 && code <= 0x9f) return this.array(code & 0x0f);
+        if (code >= 0x80 && code <= 0x8f) return this.map(code & 0x0f);
+
+        switch (code) {
+            case 0xc0: return null;
+            case 0xc2: return false;
+            case 0xc3: return true;
+            case 0xc4: return this.binary(this.uint8());
+            case 0xc5: return this.binary(this.uint16());
+            case 0xc6: return this.binary(this.uint32());
+            case 0xc7: return this.extension(this.uint8());
+            case 0xc8: return this.extension(this.uint16());
+            case 0xc9: return this.extension(this.uint32());
+            case 0xca: return this.step(4, offset => this.view.getFloat32(offset));
+            case 0xcb: return this.step(8, offset => this.view.getFloat64(offset));
+            case 0xcc: return this.uint8();
+            case 0xcd: return this.uint16();
+            case 0xce: return this.uint32();
+            case 0xcf: return this.integer(this.step(8, offset => this.view.getBigUint64(offset)));
+            case 0xd0: return this.step(1, offset => this.view.getInt8(offset));
+            case 0xd1: return this.step(2, offset => this.view.getInt16(offset));
+            case 0xd2: return this.step(4, offset => this.view.getInt32(offset));
+            case 0xd3: return this.integer(this.step(8, offset => this.view.getBigInt64(offset)));
+            case 0xd4: return this.extension(1);
+            case 0xd5: return this.extension(2);
+            case 0xd6: return this.extension(4);
+            case 0xd7: return this.extension(8);
+            case 0xd8: return this.extension(16);
+            case 0xd9: return this.string(this.uint8());
+            case 0xda: return this.string(this.uint16());
+            case 0xdb: return this.string(this.uint32());
+            case 0xdc: return this.array(this.uint16());
+            case 0xdd: return this.array(this.uint32());
+            case 0xde: return this.map(this.uint16());
+            case 0xdf: return this.map(this.uint32());
+        }
+        throw new Error(`Unsupported MessagePack type 0x${code.toString(16)}`);
+    }
+
+    private step<T>(size: number, read: (offset: number) => T): T {
+        if (this.offset + size > this.bytes.length) throw new Error("Unexpected end of MessagePack data");
+        const value = read(this.offset);
+        this.offset += size;
+        return value;
+    }
+
+    private uint8(): number {
+        return this.step(1, offset => this.view.getUint8(offset));
+    }
+
+    private uint16(): number {
+        return this.step(2, offset => this.view.getUint16(offset));
+    }
+
+    private uint32(): number {
+        return this.step(4, offset => this.view.getUint32(offset));
+    }
+
+    // 64-bit values that do not fit a double are returned as strings, the way nodeos writes them in JSON.
+    private integer(value: bigint): number | string {
+        return value <= BigInt(Number.MAX_SAFE_INTEGER) && value >= BigInt(Number.MIN_SAFE_INTEGER)
+            ? Number(value)
+            : value.toString();
+    }
+
+    private binary(length: number): Uint8Array {
+        return this.step(length, offset => this.bytes.slice(offset, offset + length));
+    }
+
+    private string(length: number): string {
+        return this.step(length, offset => textDecoder.decode(this.bytes.subarray(offset, offset + length)));
+    }
+
+    // Type -1 is the timestamp extension; other types are returned undecoded.
+    private extension(length: number): Date | MessagePackExtension {
+        const type = this.step(1, offset => this.view.getInt8(offset));
+        const data = this.binary(length);
+        if (type !== -1) return { type, data };
+
+        const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+        if (length === 4) return new Date(view.getUint32(0) * 1000);
+        if (length === 8) {
+            const value = view.getBigUint64(0);
+            return new Date(Number(value & 0x3ffffffffn) * 1000 + Math.floor(Number(value >> 34n) / 1e6));
+        }
+        if (length === 12) return new Date(Number(view.getBigInt64(4)) * 1000 + Math.floor(view.getUint32(0) / 1e6));
+        throw new Error(`Invalid MessagePack timestamp length ${length}`);
+    }
+
+    private array(length: number): any[] {
+        const items: any[] = [];
+        for (let i = 0; i < length; i++) items.push(this.read());
+        return items;
+    }
+
+    private map(length: number): Record<string, any> {
+        const result: Record<string, any> = {};
+        for (let i = 0; i < length; i++) {
+            const key = String(this.read());
+            // Defined rather than assigned, so a '__proto__' key stays a plain property instead of replacing the prototype.
+            Object.defineProperty(result, key, { value: this.read(), enumerable: true, writable: true, configurable: true });
+        }
+        return result;
+    }
+}
+
+export const MessagePackCodec: MessageCodec = {
+    name: 'msgpack',
+    encode: (message) => {
+        const writer = new ByteWriter();
+        writeValue(writer, message);
+        return writer.bytes;
+    },
+    decode: (data) => {
+        const reader = new ByteReader(typeof data === 'string' ? textEncoder.encode(data) : data);
+        const value = reader.read();
+        if (!reader.done) throw new Error("Trailing bytes after MessagePack value");
+        return value;
+    },
+};
+
+export const BUILTIN_CODECS: { [name: string]: MessageCodec } = {
+    json: JsonCodec,
+    msgpack: MessagePackCodec,
+};
+
+export const resolveCodecs = (encodings: Array<string | MessageCodec>): MessageCodec[] => {
+    const codecs = encodings.map(encoding => {
+        if (typeof encoding !== 'string') return encoding;
+        if (!BUILTIN_CODECS[encoding]) throw new Error(`Unknown encoding '${encoding}'`);
+        return BUILTIN_CODECS[encoding];
+    });
+
+    // JSON is always the last resort, so a server without negotiation support keeps working.
+    return codecs.some(codec => codec.name === 'json') ? codecs : [...codecs, JsonCodec];
+};
@@ -0,0 +1,131 @@
+import { ABI, ABIDef, Serializer } from '@wharfkit/antelope';
+import { WaxAbiError } from './errors';
+import { TableFilter, TraceFilter } from './filters';
+import { TypeGenOptions, abiToTypeScript } from './abi-typegen';
+import type { ActionTrace, Subscription, TableDelta, WebsocketJsonRpc } from './websocket-rpc';
+
+// 'json' gives the plain values nodeos returns; 'wharfkit' gives Asset, Name, UInt64 and friends.
+export type DecodedValues = 'json' | 'wharfkit';
+
+export interface ContractOptions {
+    values?: DecodedValues;
+}
+
+type Names<T> = keyof T & string;
+
+const isHex = (value: string): boolean => value.length % 2 === 0 && /^[0-9a-fA-F]*$/.test(value);
+
+export class ContractBinding<
+    Actions extends Record<string, any> = Record<string, any>,
+    Tables extends Record<string, any> = Record<string, any>
+> {
+    public readonly account: string;
+    public abi: ABI;
+
+    private rpc: WebsocketJsonRpc;
+    private options: ContractOptions;
+
+    constructor(rpc: WebsocketJsonRpc, account: string, abi: ABIDef, options: ContractOptions = {}) {
+        this.rpc = rpc;
+        this.account = account;
+        this.abi = ABI.from(abi);
+        this.options = options;
+    }
+
+    public static async load<
+        Actions extends Record<string, any> = Record<string, any>,
+        Tables extends Record<string, any> = Record<string, any>
+    >(rpc: WebsocketJsonRpc, account: string, options: ContractOptions = {}): Promise<ContractBinding<Actions, Tables>> {
+        return new ContractBinding<Actions, Tables>(rpc, account, await ContractBinding.fetchAbi(rpc, account), options);
+    }
+
+    private static async fetchAbi(rpc: WebsocketJsonRpc, account: string): Promise<ABIDef> {
+        const result = await rpc.get_abi(account);
+        if (!result.abi) throw new WaxAbiError(`Account ${account} has no ABI`, account);
+
+        return result.abi as ABIDef;
+    }
+
+    public async reload(): Promise<void> {
+        this.abi = ABI.from(await ContractBinding.fetchAbi(this.rpc, this.account));
+    }
+
+    public actionType(action: string): string {
+        const type = this.abi.getActionType(action);
+        if (!type) throw new WaxAbiError(`Unknown action ${this.account}::${action}`, this.account);
+        return type;
+    }
+
+    public tableType(table: string): string {
+        const definition = this.abi.tables.find(item => String(item.name) === table);
+        if (!definition) throw new WaxAbiError(`Unknown table ${this.account}::${table}`, this.account);
+        return definition.type;
+    }
+
+    public decodeAction<K extends Names<Actions>>(action: K, data: any): Actions[K] {
+        return this.decode(this.actionType(action), data);
+    }
+
+    public decodeTable<K extends Names<Tables>>(table: K, data: any): Tables[K] {
+        return this.decode(this.tableType(table), data);
+    }
+
+    public decodeTrace<K extends Names<Actions>>(trace: ActionTrace): ActionTrace<Actions[K]> {
+        return {
+            ...trace,
+            trace: { ...trace.trace, data: this.decodeAction(trace.trace.name as K, trace.trace.data) },
+        };
+    }
+
+    public decodeDelta<K extends Names<Tables>>(delta: TableDelta): TableDelta<Tables[K]> {
+        const table = delta.table as K;
+        return {
+            ...delta,
+            data: delta.data === null ? null : this.decodeTable(table, delta.data),
+            old_data: delta.old_data === null || delta.old_data === undefined ? null : this.decodeTable(table, delta.old_data),
+        };
+    }
+
+    // Decoding failures are thrown inside the callback, so they reach the client's 'error' event.
+    public subscribeTrace<K extends Names<Actions>>(
+        action: K,
+        filter: TraceFilter | ((trace: ActionTrace<Actions[K]>) => void),
+        callback?: (trace: ActionTrace<Actions[K]>) => void
+    ): Subscription {
+        const [traceFilter, handler] = typeof filter === 'function' ? [{}, filter] : [filter, callback!];
+
+        return this.rpc.subscribeTrace(`${this.account}::${action}`, traceFilter, (trace) => {
+            handler(this.decodeTrace<K>(trace));
+        });
+    }
+
+    public subscribeTable<K extends Names<Tables>>(
+        table: K,
+        scope: string,
+        filter: TableFilter | ((delta: TableDelta<Tables[K]>) => void),
+        callback?: (delta: TableDelta<Tables[K]>) => void
+    ): Subscription {
+        const [tableFilter, handler] = typeof filter === 'function' ? [{}, filter] : [filter, callback!];
+
+        return this.rpc.subscribeTable(this.account, scope, table, tableFilter, (delta) => {
+            handler(this.decodeDelta<K>(delta));
+        });
+    }
+
+    public typeScript(options: TypeGenOptions = {}): string {
+        return abiToTypeScript(this.abi, { name: this.account, values: this.options.values, ...options });
+    }
+
+    // Hex strings and bytes are deserialized; objects are checked against the ABI and normalized.
+    private decode(type: string, data: any): any {
+        try {
+            const decoded = (typeof data === 'string' && isHex(data)) || data instanceof Uint8Array
+                ? Serializer.decode({ data, type, abi: this.abi })
+                : Serializer.decode({ object: data, type, abi: this.abi });
+
+            return this.options.values === 'wharfkit' ? decoded : Serializer.objectify(decoded);
+        } catch (e) {
+            throw new WaxAbiError(`${this.account} ${type}: ${(e as Error).message}`, this.account, type);
+        }
+    }
+}
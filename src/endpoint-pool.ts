@@ -0,0 +1,109 @@
+export interface EndpointHealth {
+    url: string;
+    latency: number | null;
+    errorRate: number;
+    successes: number;
+    failures: number;
+    consecutiveFailures: number;
+    lastFailureAt: number | null;
+}
+
+const LATENCY_SMOOTHING = 0.3;
+const ERROR_SMOOTHING = 0.2;
+const DEFAULT_LATENCY = 250;
+const FAILURE_PENALTY = 1000;
+
+export class EndpointPool {
+    private endpoints: EndpointHealth[];
+    private activeIndex: number = 0;
+
+    constructor(urls: string[]) {
+        const unique = Array.from(new Set(urls.map(url => url.replace(/\/$/, ''))));
+        if (unique.length === 0) throw new Error("At least one endpoint is required");
+
+        this.endpoints = unique.map(url => ({
+            url,
+            latency: null,
+            errorRate: 0,
+            successes: 0,
+            failures: 0,
+            consecutiveFailures: 0,
+            lastFailureAt: null,
+        }));
+    }
+
+    public get active(): string {
+        return this.endpoints[this.activeIndex].url;
+    }
+
+    public get size(): number {
+        return this.endpoints.length;
+    }
+
+    public recordSuccess(url: string, latency: number) {
+        const health = this.find(url);
+        if (!health) return;
+
+        health.latency = health.latency === null
+            ? latency
+            : health.latency * (1 - LATENCY_SMOOTHING) + latency * LATENCY_SMOOTHING;
+        health.errorRate = health.errorRate * (1 - ERROR_SMOOTHING);
+        health.successes++;
+        health.consecutiveFailures = 0;
+    }
+
+    public recordFailure(url: string) {
+        const health = this.find(url);
+        if (!health) return;
+
+        health.errorRate = health.errorRate * (1 - ERROR_SMOOTHING) + ERROR_SMOOTHING;
+        health.failures++;
+        health.consecutiveFailures++;
+        health.lastFailureAt = Date.now();
+    }
+
+    public score(url: string): number {
+        const health = this.find(url);
+        if (!health) return Infinity;
+
+        const latency = health.latency ?? DEFAULT_LATENCY;
+        return latency + health.errorRate * FAILURE_PENALTY + health.consecutiveFailures * FAILURE_PENALTY;
+    }
+
+    public shouldFailover(url: string, threshold: number): boolean {
+        const health = this.find(url);
+        return !!health && this.size > 1 && health.consecutiveFailures >= threshold;
+    }
+
+    // Picks the healthiest endpoint other than `exclude`; ties go to the next one in rotation.
+    public next(exclude: string = this.active): string {
+        let best: EndpointHealth | null = null;
+        let bestScore = Infinity;
+
+        for (let offset = 1; offset <= this.size; offset++) {
+            const candidate = this.endpoints[(this.activeIndex + offset) % this.size];
+            if (candidate.url === exclude && this.size > 1) continue;
+
+            const score = this.score(candidate.url);
+            if (score < bestScore) {
+                best = candidate;
+                bestScore = score;
+            }
+        }
+
+        return (best || this.endpoints[this.activeIndex]).url;
+    }
+
+    public select(url: string) {
+        const index = this.endpoints.findIndex(health => health.url === url);
+        if (index !== -1) this.activeIndex = index;
+    }
+
+    public snapshot(): EndpointHealth[] {
+        return this.endpoints.map(health => ({ ...health }));
+    }
+
+    private find(url: string): EndpointHealth | undefined {
+        return this.endpoints.find(health => health.url === url);
+    }
+}
@@ -0,0 +1,122 @@
+export interface WaxRpcErrorContext {
+    requestId?: string;
+    method?: string;
+    params?: any;
+    endpoint?: string;
+    code?: number | string;
+    json?: any;
+}
+
+export class WaxRpcError extends Error {
+    public requestId?: string;
+    public method?: string;
+    public params?: any;
+    public endpoint?: string;
+    public code?: number | string;
+    public json: any;
+    public details: any[];
+
+    constructor(message: string, context: WaxRpcErrorContext = {}) {
+        super(message);
+        this.name = 'WaxRpcError';
+        this.requestId = context.requestId;
+        this.method = context.method;
+        this.params = context.params;
+        this.endpoint = context.endpoint;
+        this.code = context.code;
+        this.json = context.json ?? null;
+        this.details = context.json?.error?.details ?? [];
+    }
+
+    // Mirrors eosjs RpcError: prefer the first nodeos detail message over the generic one.
+    public static fromResponse(msg: any, context: WaxRpcErrorContext = {}): WaxRpcError {
+        const message = msg?.error?.details?.[0]?.message
+            ?? msg?.message
+            ?? msg?.error?.what
+            ?? 'Unknown RPC error';
+
+        return new WaxRpcError(message, {
+            ...context,
+            requestId: msg?.request_id ?? context.requestId,
+            code: msg?.code ?? msg?.error?.code,
+            json: msg,
+        });
+    }
+}
+
+export class WaxRpcTimeoutError extends WaxRpcError {
+    public timeout: number;
+
+    constructor(timeout: number, context: WaxRpcErrorContext = {}) {
+        super("Request Timeout", context);
+        this.name = 'WaxRpcTimeoutError';
+        this.timeout = timeout;
+    }
+}
+
+export class WaxConnectionClosedError extends WaxRpcError {
+    constructor(message: string = "Connection closed", context: WaxRpcErrorContext = {}) {
+        super(message, context);
+        this.name = 'WaxConnectionClosedError';
+    }
+}
+
+export class WaxQueueOverflowError extends WaxRpcError {
+    public queueSize: number;
+
+    constructor(queueSize: number, context: WaxRpcErrorContext = {}) {
+        super(`Request queue is full (${queueSize})`, context);
+        this.name = 'WaxQueueOverflowError';
+        this.queueSize = queueSize;
+    }
+}
+
+export class WaxRpcAbortedError extends WaxRpcError {
+    constructor(context: WaxRpcErrorContext = {}) {
+        super("Request Aborted", context);
+        this.name = 'WaxRpcAbortedError';
+    }
+}
+
+export class WaxStreamOverflowError extends WaxRpcError {
+    public bufferSize: number;
+
+    constructor(bufferSize: number, context: WaxRpcErrorContext = {}) {
+        super(`Subscription buffer is full (${bufferSize})`, context);
+        this.name = 'WaxStreamOverflowError';
+        this.bufferSize = bufferSize;
+    }
+}
+
+export class WaxTransactionError extends WaxRpcError {
+    public txId: string;
+    public stage: string;
+    public blockNum: number | null;
+
+    constructor(message: string, txId: string, stage: string, blockNum: number | null = null, context: WaxRpcErrorContext = {}) {
+        super(message, context);
+        this.name = 'WaxTransactionError';
+        this.txId = txId;
+        this.stage = stage;
+        this.blockNum = blockNum;
+    }
+}
+
+export class WaxAbiError extends WaxRpcError {
+    public account: string;
+    public type: string | null;
+
+    constructor(message: string, account: string, type: string | null = null, context: WaxRpcErrorContext = {}) {
+        super(message, context);
+        this.name = 'WaxAbiError';
+        this.account = account;
+        this.type = type;
+    }
+}
+
+export class WaxAuthError extends WaxRpcError {
+    constructor(message: string, context: WaxRpcErrorContext = {}) {
+        super(message, context);
+        this.name = 'WaxAuthError';
+    }
+}
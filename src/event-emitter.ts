@@ -0,0 +1,61 @@
+export type EventListener = (...args: any[]) => void;
+
+export type EventMap<T> = { [K in keyof T]: EventListener };
+
+export class TypedEventEmitter<Events extends EventMap<Events>> {
+    private listeners: { [K in keyof Events]?: Array<Events[K]> } = {};
+
+    public on<K extends keyof Events>(event: K, listener: Events[K]): this {
+        const listeners = this.listeners[event] || [];
+        listeners.push(listener);
+        this.listeners[event] = listeners;
+        return this;
+    }
+
+    public once<K extends keyof Events>(event: K, listener: Events[K]): this {
+        const wrapper = ((...args: any[]) => {
+            this.off(event, wrapper);
+            listener(...args);
+        }) as Events[K];
+        return this.on(event, wrapper);
+    }
+
+    public off<K extends keyof Events>(event: K, listener: Events[K]): this {
+        const listeners = this.listeners[event];
+        if (listeners) {
+            const index = listeners.indexOf(listener);
+            if (index !== -1) {
+                listeners.splice(index, 1);
+            }
+        }
+        return this;
+    }
+
+    public removeAllListeners<K extends keyof Events>(event?: K): this {
+        if (event === undefined) {
+            this.listeners = {};
+        } else {
+            delete this.listeners[event];
+        }
+        return this;
+    }
+
+    public listenerCount<K extends keyof Events>(event: K): number {
+        return this.listeners[event]?.length ?? 0;
+    }
+
+    protected emit<K extends keyof Events>(event: K, ...args: Parameters<Events[K]>): boolean {
+        const listeners = this.listeners[event];
+        if (!listeners || listeners.length === 0) return false;
+
+        // A throwing listener must not stop delivery to the others.
+        [...listeners].forEach(listener => {
+            try {
+                listener(...args);
+            } catch (e) {
+                console.error(`Listener Error (${String(event)}):`, e);
+            }
+        });
+        return true;
+    }
+}
@@ -0,0 +1,157 @@
+import type { ActionTrace, TableDelta } from './websocket-rpc';
+
+export type FieldFilter<V> = V | V[] | ((value: V) => boolean);
+
+export type DataFilter<T> = { [K in keyof T]?: FieldFilter<T[K]> };
+
+export interface TraceFilter<T = any> {
+    receiver?: string | string[];
+    notifications?: 'include' | 'exclude' | 'only';
+    actor?: string | string[];
+    data?: DataFilter<T>;
+}
+
+export interface TraceTarget {
+    code: string;
+    action: string;
+}
+
+export type TableDeltaAction = TableDelta['action'];
+
+export interface TableFilter {
+    primaryKey?: string | number | Array<string | number>;
+    lowerBound?: string | number;
+    upperBound?: string | number;
+    actions?: TableDeltaAction[];
+    payer?: string | string[];
+}
+
+export interface TableTarget {
+    code: string;
+    table: string;
+    scope: string | null;
+}
+
+const toList = <V>(value: V | V[] | undefined): V[] | undefined => {
+    if (value === undefined) return undefined;
+    return Array.isArray(value) ? value : [value];
+};
+
+const isPrimitive = (value: any): boolean => {
+    return typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean';
+};
+
+const fieldMatches = (actual: any, expected: any): boolean => {
+    if (typeof expected === 'function') return !!expected(actual);
+    if (Array.isArray(expected)) return expected.some(item => fieldMatches(actual, item));
+    return actual === expected || (actual !== null && actual !== undefined && String(actual) === String(expected));
+};
+
+export const matchesData = <T>(data: T | null | undefined, filter: DataFilter<T> | undefined): boolean => {
+    if (!filter) return true;
+    if (!data) return false;
+
+    return Object.keys(filter).every(field => fieldMatches((data as any)[field], (filter as any)[field]));
+};
+
+// Only plain values and lists of them can be evaluated by the server; predicates stay on the client.
+export const serializableData = <T>(filter: DataFilter<T> | undefined): Record<string, any> | undefined => {
+    if (!filter) return undefined;
+
+    const result: Record<string, any> = {};
+    Object.keys(filter).forEach(field => {
+        const value = (filter as any)[field];
+        if (isPrimitive(value) || (Array.isArray(value) && value.every(isPrimitive))) {
+            result[field] = value;
+        }
+    });
+
+    return Object.keys(result).length > 0 ? result : undefined;
+};
+
+export const parseTraceTarget = (codeAction: string): TraceTarget => {
+    const [code, action, ...rest] = codeAction.split('::');
+    if (!code || !action || rest.length > 0) throw new Error("Invalid format. Use 'contract::action'");
+
+    return { code, action };
+};
+
+export const matchesTraceTarget = (target: TraceTarget, trace: ActionTrace): boolean => {
+    return (target.code === '*' || target.code === trace.trace.account)
+        && (target.action === '*' || target.action === trace.trace.name);
+};
+
+export const compileTraceFilter = <T>(filter: TraceFilter<T>): (trace: ActionTrace<T>) => boolean => {
+    const receivers = toList(filter.receiver);
+    const actors = toList(filter.actor);
+    const notifications = filter.notifications ?? 'include';
+
+    return (trace) => {
+        const isNotification = trace.receiver !== trace.trace.account;
+        if (notifications === 'exclude' && isNotification) return false;
+        if (notifications === 'only' && !isNotification) return false;
+        if (receivers && !receivers.includes(trace.receiver)) return false;
+        if (actors && !trace.trace.authorization.some(auth => actors.includes(auth.actor))) return false;
+
+        return matchesData(trace.trace.data, filter.data);
+    };
+};
+
+export const traceServerParams = <T>(filter: TraceFilter<T>): Record<string, any> => {
+    const params: Record<string, any> = {};
+
+    if (filter.receiver !== undefined) params.receivers = toList(filter.receiver);
+    if (filter.notifications && filter.notifications !== 'include') params.notifications = filter.notifications;
+    if (filter.actor !== undefined) params.actors = toList(filter.actor);
+
+    const data = serializableData(filter.data);
+    if (data) params.data = data;
+
+    return params;
+};
+
+// Primary keys are uint64, so they are compared as BigInt to stay exact beyond 2^53.
+const compareKeys = (a: string | number, b: string | number): number => {
+    try {
+        const x = BigInt(a);
+        const y = BigInt(b);
+        return x < y ? -1 : x > y ? 1 : 0;
+    } catch (e) {
+        const x = String(a);
+        const y = String(b);
+        return x < y ? -1 : x > y ? 1 : 0;
+    }
+};
+
+export const matchesTableTarget = (target: TableTarget, delta: TableDelta): boolean => {
+    return target.code === delta.code
+        && target.table === delta.table
+        && (target.scope === null || target.scope === delta.scope);
+};
+
+export const compileTableFilter = <T>(filter: TableFilter): (delta: TableDelta<T>) => boolean => {
+    const primaryKeys = toList(filter.primaryKey);
+    const payers = toList(filter.payer);
+
+    return (delta) => {
+        if (filter.actions && !filter.actions.includes(delta.action)) return false;
+        if (payers && !payers.includes(delta.payer)) return false;
+        if (primaryKeys && !primaryKeys.some(key => compareKeys(key, delta.primary_key) === 0)) return false;
+        if (filter.lowerBound !== undefined && compareKeys(delta.primary_key, filter.lowerBound) < 0) return false;
+        if (filter.upperBound !== undefined && compareKeys(delta.primary_key, filter.upperBound) > 0) return false;
+
+        return true;
+    };
+};
+
+export const tableServerParams = (filter: TableFilter): Record<string, any> => {
+    const params: Record<string, any> = {};
+
+    if (filter.primaryKey !== undefined) params.primary_keys = toList(filter.primaryKey)!.map(String);
+    if (filter.lowerBound !== undefined) params.lower_bound = String(filter.lowerBound);
+    if (filter.upperBound !== undefined) params.upper_bound = String(filter.upperBound);
+    if (filter.actions !== undefined) params.actions = filter.actions;
+    if (filter.payer !== undefined) params.payers = toList(filter.payer);
+
+    return params;
+};
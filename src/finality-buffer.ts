@@ -0,0 +1,67 @@
+import type { ForkEvent, Subscription, WebsocketJsonRpc } from './websocket-rpc';
+
+export interface FinalityBufferOptions<T> {
+    onUndone?: (item: T) => void;
+}
+
+// Holds deliveries until their block is irreversible and drops those a fork undid.
+export class FinalityBuffer<T extends { block_num?: number; irreversible?: boolean }> {
+    private rpc: WebsocketJsonRpc;
+    private release: (item: T) => void;
+    private options: FinalityBufferOptions<T>;
+    private items: T[] = [];
+    private blocks: Subscription;
+    private onFork: (fork: ForkEvent) => void;
+
+    constructor(rpc: WebsocketJsonRpc, release: (item: T) => void, options: FinalityBufferOptions<T> = {}) {
+        this.rpc = rpc;
+        this.release = release;
+        this.options = options;
+
+        // Head blocks carry the last irreversible block number and reveal forks.
+        this.blocks = rpc.subscribeBlocks({ mode: 'head' }, () => this.flush());
+        this.onFork = (fork) => this.undo(fork.undoneBlocks);
+        rpc.on('fork', this.onFork);
+    }
+
+    public get pending(): number {
+        return this.items.length;
+    }
+
+    public push = (item: T) => {
+        const lastIrreversible = this.rpc.lastIrreversibleBlock;
+
+        if (item.irreversible || typeof item.block_num !== 'number'
+            || (lastIrreversible !== null && item.block_num <= lastIrreversible)) {
+            this.release(item);
+            return;
+        }
+        this.items.push(item);
+    };
+
+    public async close(): Promise<void> {
+        this.rpc.off('fork', this.onFork);
+        this.items = [];
+        await this.blocks.unsubscribe();
+    }
+
+    private flush() {
+        const lastIrreversible = this.rpc.lastIrreversibleBlock;
+        if (lastIrreversible === null) return;
+
+        const final = this.items.filter(item => item.block_num! <= lastIrreversible);
+        if (final.length === 0) return;
+
+        this.items = this.items.filter(item => item.block_num! > lastIrreversible);
+        final.forEach(item => this.release(item));
+    }
+
+    private undo(undoneBlocks: number[]) {
+        const undone = new Set(undoneBlocks);
+        const dropped = this.items.filter(item => undone.has(item.block_num!));
+        if (dropped.length === 0) return;
+
+        this.items = this.items.filter(item => !undone.has(item.block_num!));
+        dropped.forEach(item => this.options.onUndone?.(item));
+    }
+}
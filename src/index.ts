@@ -1 +1,22 @@
-export * from './websocket-rpc';
\ No newline at end of file
+export * from './websocket-rpc';
+export * from './websocket-provider';
+export * from './endpoint-pool';
+export * from './event-emitter';
+export * from './retry-policy';
+export * from './errors';
+export * from './filters';
+export * from './live-table';
+export * from './subscription-stream';
+export * from './response-cache';
+export * from './table-types';
+export * from './transaction-tracker';
+export * from './platform';
+export * from './transport';
+export * from './codecs';
+export * from './contract';
+export * from './abi-typegen';
+export * from './finality-buffer';
+export * from './instrumentation';
+export * from './metrics-collector';
+export * from './tracing';
+export * from './mock-server';
@@ -0,0 +1,39 @@
+import type { SubscriptionType } from './websocket-rpc';
+
+export interface RequestStartEvent {
+    requestId: string;
+    method: string;
+    params: any;
+    endpoint: string;
+    startedAt: number;
+    // Requests waiting for a connection and requests awaiting a reply when this one was made.
+    queueDepth: number;
+    inFlight: number;
+}
+
+export interface RequestEndEvent extends RequestStartEvent {
+    duration: number;
+    error: Error | null;
+}
+
+export interface ReconnectEvent {
+    attempt: number;
+    maxRetries: number;
+    delay: number;
+    endpoint: string;
+}
+
+export interface SubscriptionMessageEvent {
+    type: SubscriptionType;
+    key: string;
+    blockNum: number | null;
+    receivedAt: number;
+}
+
+// Every hook is optional. Hooks run synchronously; an exception is reported through the client's 'error' event.
+export interface Instrumentation {
+    onRequestStart?(event: RequestStartEvent): void;
+    onRequestEnd?(event: RequestEndEvent): void;
+    onReconnect?(event: ReconnectEvent): void;
+    onSubscriptionMessage?(event: SubscriptionMessageEvent): void;
+}
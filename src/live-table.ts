@@ -0,0 +1,239 @@
+import { TypedEventEmitter } from './event-emitter';
+import { TableFilter } from './filters';
+import type { Subscription, TableDelta, WebsocketJsonRpc } from './websocket-rpc';
+
+export interface LiveTableOptions<T = any> {
+    code: string;
+    table: string;
+    scope?: string;
+    primaryKey?: keyof T | ((row: T) => string | number);
+    pageSize?: number;
+    filter?: TableFilter;
+    autoStart?: boolean;
+}
+
+export interface LiveTableChange<T = any> {
+    action: TableDelta['action'];
+    scope: string;
+    key: string;
+    row: T | null;
+    oldRow: T | null;
+}
+
+export interface LiveTableEvents<T> {
+    ready: () => void;
+    change: (change: LiveTableChange<T>) => void;
+    reload: () => void;
+    error: (error: Error) => void;
+}
+
+const normalizeKey = (key: string | number): string => {
+    try {
+        return BigInt(key).toString();
+    } catch (e) {
+        return String(key);
+    }
+};
+
+export class LiveTable<T = any> extends TypedEventEmitter<LiveTableEvents<T>> {
+    public readonly code: string;
+    public readonly table: string;
+    public readonly scope: string | null;
+
+    private rpc: WebsocketJsonRpc;
+    private options: LiveTableOptions<T>;
+    private keyOf: (row: T) => string | number;
+
+    private scopes: Map<string, Map<string, T>> = new Map();
+    private buffer: TableDelta<T>[] = [];
+    private loading: boolean = false;
+    private generation: number = 0;
+    private subscription: Subscription | null = null;
+    private startPromise: Promise<void> | null = null;
+    private loadPromise: Promise<void> | null = null;
+
+    constructor(rpc: WebsocketJsonRpc, options: LiveTableOptions<T>) {
+        super();
+        this.rpc = rpc;
+        this.options = options;
+        this.code = options.code;
+        this.table = options.table;
+        this.scope = options.scope || null;
+
+        const primaryKey = options.primaryKey ?? ('id' as keyof T);
+        this.keyOf = typeof primaryKey === 'function'
+            ? primaryKey
+            : (row: T) => (row as any)[primaryKey];
+
+        if (options.autoStart ?? true) {
+            // Failures are reported through the 'error' event.
+            this.start().catch(() => {});
+        }
+    }
+
+    public get ready(): Promise<void> {
+        return this.start();
+    }
+
+    public get size(): number {
+        let size = 0;
+        this.scopes.forEach(rows => size += rows.size);
+        return size;
+    }
+
+    public start(): Promise<void> {
+        if (!this.startPromise) {
+            this.subscription = this.rpc.subscribeTable<T>(
+                this.code,
+                this.scope || '',
+                this.table,
+                this.options.filter || {},
+                (delta) => this.handleDelta(delta)
+            );
+            this.subscription.onError(error => this.emit('error', error));
+            this.subscription.onResubscribed(() => {
+                // Deltas may have been missed while disconnected, so the snapshot is rebuilt.
+                this.load().then(() => this.emit('reload'), () => {});
+            });
+            // Without the subscription the mirror would go stale, so its failure fails the start too.
+            this.startPromise = Promise.all([this.subscription.ready, this.load()]).then(() => {
+                this.emit('ready');
+            });
+        }
+        return this.startPromise!;
+    }
+
+    public get(key: string | number, scope: string | null = this.scope): T | undefined {
+        if (scope === null) throw new Error("A scope is required when the table is mirrored across scopes");
+        return this.scopes.get(scope)?.get(normalizeKey(key));
+    }
+
+    public rows(scope: string | null = this.scope): T[] {
+        if (scope !== null) {
+            return Array.from(this.scopes.get(scope)?.values() || []);
+        }
+
+        const rows: T[] = [];
+        this.scopes.forEach(scopeRows => rows.push(...scopeRows.values()));
+        return rows;
+    }
+
+    public async reload(): Promise<void> {
+        await this.load();
+        this.emit('reload');
+    }
+
+    public async close(): Promise<void> {
+        const subscription = this.subscription;
+        this.subscription = null;
+        this.startPromise = null;
+        this.loadPromise = null;
+        this.generation++;
+        this.buffer = [];
+        this.loading = false;
+
+        if (subscription) await subscription.unsubscribe();
+    }
+
+    private load(): Promise<void> {
+        const generation = ++this.generation;
+        this.loading = true;
+        this.buffer = [];
+
+        this.loadPromise = this.loadSnapshot(generation);
+        return this.loadPromise;
+    }
+
+    private async loadSnapshot(generation: number): Promise<void> {
+        // A load superseded by a newer one settles with the newer one.
+        const superseded = () => generation !== this.generation;
+
+        try {
+            const scopes = this.scope !== null ? [this.scope] : await this.fetchScopes();
+            const snapshot: Map<string, Map<string, T>> = new Map();
+
+            for (const scope of scopes) {
+                snapshot.set(scope, await this.fetchRows(scope));
+                if (superseded()) return this.loadPromise ?? undefined;
+            }
+            if (superseded()) return this.loadPromise ?? undefined;
+
+            this.scopes = snapshot;
+            this.loading = false;
+
+            // Replaying deltas that raced the snapshot is safe: every delta carries the full row.
+            const buffered = this.buffer;
+            this.buffer = [];
+            buffered.forEach(delta => this.applyDelta(delta));
+        } catch (e) {
+            if (superseded()) return this.loadPromise ?? undefined;
+
+            this.loading = false;
+            this.emit('error', e as Error);
+            throw e;
+        }
+    }
+
+    private async fetchScopes(): Promise<string[]> {
+        const scopes: string[] = [];
+        const pages = this.rpc.iterateScopes({
+            code: this.code,
+            table: this.table,
+            limit: this.options.pageSize ?? 100,
+        });
+
+        for await (const row of pages) {
+            scopes.push(row.scope);
+        }
+        return scopes;
+    }
+
+    private async fetchRows(scope: string): Promise<Map<string, T>> {
+        const rows: Map<string, T> = new Map();
+        const pages = this.rpc.iterateTableRows<T>({
+            json: true,
+            code: this.code,
+            scope,
+            table: this.table,
+            limit: this.options.pageSize ?? 100,
+        });
+
+        for await (const row of pages) {
+            rows.set(normalizeKey(this.keyOf(row)), row);
+        }
+        return rows;
+    }
+
+    private handleDelta(delta: TableDelta<T>) {
+        if (this.loading) {
+            this.buffer.push(delta);
+            return;
+        }
+        this.applyDelta(delta);
+    }
+
+    private applyDelta(delta: TableDelta<T>) {
+        const key = normalizeKey(delta.primary_key);
+        let rows = this.scopes.get(delta.scope);
+        if (!rows) {
+            rows = new Map();
+            this.scopes.set(delta.scope, rows);
+        }
+
+        const oldRow = rows.get(key) ?? delta.old_data ?? null;
+
+        if (delta.action === 'ERASE') {
+            rows.delete(key);
+        } else if (delta.data !== null) {
+            rows.set(key, delta.data);
+        }
+
+        this.emit('change', {
+            action: delta.action,
+            scope: delta.scope,
+            key,
+            row: delta.action === 'ERASE' ? null : delta.data,
+            oldRow,
+        });
+    }
+}
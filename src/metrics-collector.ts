@@ -0,0 +1,209 @@
+import { WaxRpcAbortedError, WaxRpcTimeoutError } from './errors';
+import {
+    Instrumentation,
+    RequestEndEvent,
+    RequestStartEvent,
+    SubscriptionMessageEvent
+} from './instrumentation';
+import type { SubscriptionType } from './websocket-rpc';
+
+export interface MetricsCollectorOptions {
+    // Latency samples kept per method; percentiles are computed over the most recent ones.
+    maxSamples?: number;
+    // Subscription message rates are averaged over this many milliseconds.
+    rateWindow?: number;
+}
+
+export interface LatencySummary {
+    count: number;
+    min: number;
+    max: number;
+    mean: number;
+    p50: number;
+    p90: number;
+    p95: number;
+    p99: number;
+}
+
+export interface MethodMetrics {
+    requests: number;
+    errors: number;
+    timeouts: number;
+    aborted: number;
+    latency: LatencySummary | null;
+}
+
+export interface SubscriptionMetrics {
+    type: SubscriptionType;
+    messages: number;
+    perSecond: number;
+    lastBlock: number | null;
+}
+
+export interface MetricsSnapshot {
+    methods: { [method: string]: MethodMetrics };
+    subscriptions: { [key: string]: SubscriptionMetrics };
+    inFlight: number;
+    maxQueueDepth: number;
+    reconnects: number;
+}
+
+interface MethodStats {
+    requests: number;
+    errors: number;
+    timeouts: number;
+    aborted: number;
+    samples: number[];
+}
+
+interface SubscriptionStats {
+    type: SubscriptionType;
+    messages: number;
+    lastBlock: number | null;
+    buckets: Map<number, number>;
+}
+
+// Nearest-rank percentile over sorted samples.
+const percentileOf = (sorted: number[], p: number): number => {
+    const rank = Math.ceil((p / 100) * sorted.length);
+    return sorted[Math.min(Math.max(rank, 1), sorted.length) - 1];
+};
+
+const summarize = (samples: number[]): LatencySummary | null => {
+    if (samples.length === 0) return null;
+
+    const sorted = [...samples].sort((a, b) => a - b);
+    return {
+        count: sorted.length,
+        min: sorted[0],
+        max: sorted[sorted.length - 1],
+        mean: sorted.reduce((sum, value) => sum + value, 0) / sorted.length,
+        p50: percentileOf(sorted, 50),
+        p90: percentileOf(sorted, 90),
+        p95: percentileOf(sorted, 95),
+        p99: percentileOf(sorted, 99),
+    };
+};
+
+// Timeouts and aborts are counted but left out of the latency samples, which would otherwise
+// only measure the timeout setting.
+export class MetricsCollector implements Instrumentation {
+    private maxSamples: number;
+    private rateWindow: number;
+    private methods: Map<string, MethodStats> = new Map();
+    private subscriptions: Map<string, SubscriptionStats> = new Map();
+    private inFlight: number = 0;
+    private maxQueueDepth: number = 0;
+    private reconnects: number = 0;
+    private since: number = Date.now();
+
+    constructor(options: MetricsCollectorOptions = {}) {
+        this.maxSamples = options.maxSamples ?? 1000;
+        this.rateWindow = options.rateWindow ?? 60000;
+    }
+
+    public onRequestStart(event: RequestStartEvent) {
+        this.inFlight++;
+        this.maxQueueDepth = Math.max(this.maxQueueDepth, event.queueDepth);
+        this.method(event.method).requests++;
+    }
+
+    public onRequestEnd(event: RequestEndEvent) {
+        this.inFlight = Math.max(this.inFlight - 1, 0);
+        const stats = this.method(event.method);
+
+        if (event.error instanceof WaxRpcTimeoutError) {
+            stats.timeouts++;
+            return;
+        }
+        if (event.error instanceof WaxRpcAbortedError) {
+            stats.aborted++;
+            return;
+        }
+        if (event.error) stats.errors++;
+
+        stats.samples.push(event.duration);
+        if (stats.samples.length > this.maxSamples) stats.samples.splice(0, stats.samples.length - this.maxSamples);
+    }
+
+    public onReconnect() {
+        this.reconnects++;
+    }
+
+    public onSubscriptionMessage(event: SubscriptionMessageEvent) {
+        let stats = this.subscriptions.get(event.key);
+        if (!stats) {
+            stats = { type: event.type, messages: 0, lastBlock: null, buckets: new Map() };
+            this.subscriptions.set(event.key, stats);
+        }
+
+        stats.messages++;
+        if (event.blockNum !== null) stats.lastBlock = event.blockNum;
+
+        const second = Math.floor(event.receivedAt / 1000);
+        stats.buckets.set(second, (stats.buckets.get(second) ?? 0) + 1);
+        this.prune(stats, event.receivedAt);
+    }
+
+    public percentile(method: string, p: number): number | null {
+        const samples = this.methods.get(method)?.samples ?? [];
+        return samples.length > 0 ? percentileOf([...samples].sort((a, b) => a - b), p) : null;
+    }
+
+    public snapshot(): MetricsSnapshot {
+        const now = Date.now();
+        const methods: { [method: string]: MethodMetrics } = {};
+        const subscriptions: { [key: string]: SubscriptionMetrics } = {};
+
+        this.methods.forEach((stats, method) => {
+            const { samples, ...counts } = stats;
+            methods[method] = { ...counts, latency: summarize(samples) };
+        });
+
+        // Shortly after a reset the rate is averaged over the time elapsed instead of the whole window.
+        const seconds = Math.max(Math.min(this.rateWindow, now - this.since), 1000) / 1000;
+        this.subscriptions.forEach((stats, key) => {
+            this.prune(stats, now);
+            const recent = Array.from(stats.buckets.values()).reduce((sum, count) => sum + count, 0);
+            subscriptions[key] = {
+                type: stats.type,
+                messages: stats.messages,
+                perSecond: recent / seconds,
+                lastBlock: stats.lastBlock,
+            };
+        });
+
+        return {
+            methods,
+            subscriptions,
+            inFlight: this.inFlight,
+            maxQueueDepth: this.maxQueueDepth,
+            reconnects: this.reconnects,
+        };
+    }
+
+    // Requests still in flight keep being counted until they end.
+    public reset() {
+        this.methods.clear();
+        this.subscriptions.clear();
+        this.maxQueueDepth = 0;
+        this.reconnects = 0;
+        this.since = Date.now();
+    }
+
+    private method(method: string): MethodStats {
+        let stats = this.methods.get(method);
+        if (!stats) {
+            stats = { requests: 0, errors: 0, timeouts: 0, aborted: 0, samples: [] };
+            this.methods.set(method, stats);
+        }
+        return stats;
+    }
+
+    private prune(stats: SubscriptionStats, now: number) {
+        const oldest = Math.floor((now - this.rateWindow) / 1000);
+        stats.buckets.forEach((count, second) => {
+            if (second <= oldest) stats.buckets.delete(second);
+        });
+    }
+}
@@ -0,0 +1,309 @@
+import { JsonCodec, MessageCodec, resolveCodecs, toBytes } from './codecs';
+import { Transport, TransportCloseEvent, TransportOpenOptions, TransportSocket } from './transport';
+import type { ActionTrace, BlockHeader, TableDelta } from './websocket-rpc';
+
+export interface MockRequest {
+    requestId: string;
+    method: string;
+    params: any;
+    endpoint: string;
+}
+
+export interface MockErrorReply {
+    code?: number;
+    message?: string;
+    name?: string;
+    what?: string;
+    details?: Array<{ message: string; file?: string; line_number?: number; method?: string }>;
+}
+
+export interface MockHandshake {
+    endpoint: string;
+    protocols: string[];
+    headers: { [name: string]: string };
+}
+
+export type MockHandler = (params: any, request: MockRequest) => any;
+
+type MockRoute =
+    | { kind: 'reply'; handler: MockHandler }
+    | { kind: 'fail'; error: MockErrorReply }
+    | { kind: 'hang' };
+
+interface MockSocketHooks {
+    latency(): number;
+    receive(socket: MockSocket, data: string | Uint8Array): void;
+    closed(socket: MockSocket): void;
+}
+
+class MockSocket implements TransportSocket {
+    public binaryType: string = 'blob';
+    public onopen: ((event?: any) => void) | null = null;
+    public onmessage: ((event: { data: any }) => void) | null = null;
+    public onclose: ((event: TransportCloseEvent) => void) | null = null;
+    public onerror: ((error: any) => void) | null = null;
+
+    public readonly endpoint: string;
+    public protocol: string = '';
+    public isOpen: boolean = false;
+    public codec: MessageCodec = JsonCodec;
+
+    private hooks: MockSocketHooks;
+    private isClosed: boolean = false;
+
+    constructor(endpoint: string, hooks: MockSocketHooks) {
+        this.endpoint = endpoint;
+        this.hooks = hooks;
+    }
+
+    public send(data: string | Uint8Array) {
+        // Like a real socket, frames sent while closing are dropped without an error.
+        if (this.isClosed) return;
+        if (!this.isOpen) throw new Error('WebSocket is not open');
+        this.hooks.receive(this, data);
+    }
+
+    public close(code: number = 1000, reason: string = '') {
+        this.shutdown(code, reason, this.hooks.latency());
+    }
+
+    public terminate() {
+        this.shutdown(1006, '', 0);
+    }
+
+    public accept() {
+        setTimeout(() => {
+            if (this.isClosed) return;
+            this.isOpen = true;
+            this.onopen?.();
+        }, this.hooks.latency());
+    }
+
+    public refuse(message: string = `connect ECONNREFUSED ${this.endpoint}`) {
+        setTimeout(() => {
+            if (this.isClosed) return;
+            this.onerror?.(new Error(message));
+            this.shutdown(1006, '', 0);
+        }, this.hooks.latency());
+    }
+
+    public deliver(message: any) {
+        const data = this.codec.encode(message);
+        setTimeout(() => {
+            if (this.isOpen) this.onmessage?.({ data });
+        }, this.hooks.latency());
+    }
+
+    public shutdown(code: number, reason: string, delay: number) {
+        if (this.isClosed) return;
+        this.isClosed = true;
+        this.isOpen = false;
+        this.hooks.closed(this);
+
+        setTimeout(() => this.onclose?.({ code, reason }), delay);
+    }
+}
+
+export interface MockServerOptions {
+    encodings?: Array<string | MessageCodec>;
+}
+
+// An in-memory stand-in for a WAX WebSocket RPC node. Pass it as the `transport` option.
+export class MockWaxRpcServer implements Transport {
+    public latency: number = 0;
+    public readonly requests: MockRequest[] = [];
+    public readonly handshakes: MockHandshake[] = [];
+
+    private codecs: MessageCodec[];
+    private routes: Map<string, MockRoute> = new Map();
+    private sockets: Set<MockSocket> = new Set();
+    private refused: Set<string> = new Set();
+    private authorizer: ((handshake: MockHandshake) => boolean) | null = null;
+    private waiters: Array<{ method: string | null, resolve: (request: MockRequest) => void }> = [];
+
+    constructor(options: MockServerOptions = {}) {
+        this.codecs = resolveCodecs(options.encodings ?? ['json']);
+
+        const acknowledge: MockHandler = (params) => ({ start_block: params?.start_block });
+        this.reply('subscribe_table', acknowledge);
+        this.reply('subscribe_trace', acknowledge);
+        this.reply('subscribe_block', acknowledge);
+        this.reply('unsubscribe_table', {});
+        this.reply('unsubscribe_trace', {});
+        this.reply('unsubscribe_block', {});
+        this.reply('auth', {});
+    }
+
+    public get connections(): number {
+        return Array.from(this.sockets).filter(socket => socket.isOpen).length;
+    }
+
+    // A plain value is sent as the result; a function receives the params and may return a promise or throw.
+    public reply(method: string, handler: MockHandler): this;
+    public reply(method: string, result: any): this;
+    public reply(method: string, result: any | MockHandler): this {
+        const handler: MockHandler = typeof result === 'function' ? result : () => result;
+        this.routes.set(method, { kind: 'reply', handler });
+        return this;
+    }
+
+    public fail(method: string, error: MockErrorReply = {}): this {
+        this.routes.set(method, { kind: 'fail', error });
+        return this;
+    }
+
+    public hang(method: string): this {
+        this.routes.set(method, { kind: 'hang' });
+        return this;
+    }
+
+    public nextRequest(method?: string): Promise<MockRequest> {
+        return new Promise(resolve => this.waiters.push({ method: method ?? null, resolve }));
+    }
+
+    public pushTableDelta<T = any>(delta: Omit<TableDelta<T>, 'type'>) {
+        this.broadcast({ type: 'table_delta', ...delta });
+    }
+
+    public pushActionTrace<T = any>(trace: Omit<ActionTrace<T>, 'type'>) {
+        this.broadcast({ type: 'action_trace', ...trace });
+    }
+
+    public pushBlock(block: Omit<BlockHeader, 'type' | 'mode' | 'irreversible'> & { mode?: BlockHeader['mode'] }) {
+        this.broadcast({ type: 'block', mode: 'head', ...block });
+    }
+
+    public broadcast(message: any) {
+        this.sockets.forEach(socket => socket.deliver(message));
+    }
+
+    public disconnect(code: number = 1006, reason: string = '') {
+        this.sockets.forEach(socket => socket.shutdown(code, reason, this.latency));
+    }
+
+    // Without an endpoint, every endpoint refuses or accepts connections.
+    public refuse(endpoint: string = '*') {
+        this.refused.add(endpoint);
+    }
+
+    public accept(endpoint: string = '*') {
+        if (endpoint === '*') this.refused.clear();
+        else this.refused.delete(endpoint);
+    }
+
+    // Handshakes the check turns down fail the way 'ws' reports a 401 from the upgrade request.
+    public authorize(check: ((handshake: MockHandshake) => boolean) | null) {
+        this.authorizer = check;
+    }
+
+    public open(endpoint: string, options: TransportOpenOptions = {}): TransportSocket {
+        const protocols = options.protocols === undefined ? [] : ([] as string[]).concat(options.protocols);
+        const handshake: MockHandshake = { endpoint, protocols, headers: { ...options.headers } };
+        this.handshakes.push(handshake);
+
+        const socket = new MockSocket(endpoint, {
+            latency: () => this.latency,
+            receive: (source, data) => this.receive(source, data),
+            closed: (source) => this.sockets.delete(source),
+        });
+
+        socket.protocol = protocols[0] ?? '';
+
+        if (this.refused.has('*') || this.refused.has(endpoint)) {
+            socket.refuse();
+        } else if (this.authorizer && !this.authorizer(handshake)) {
+            socket.refuse('Unexpected server response: 401');
+        } else {
+            this.sockets.add(socket);
+            socket.accept();
+        }
+        return socket;
+    }
+
+    private receive(socket: MockSocket, data: string | Uint8Array) {
+        const parsed = typeof data === 'string' ? JsonCodec.decode(data) : socket.codec.decode(toBytes(data)!);
+        const messages: any[] = Array.isArray(parsed) ? parsed : [parsed];
+
+        messages.forEach(message => {
+            if (message.type === 'ping') {
+                socket.deliver({ type: 'pong' });
+                return;
+            }
+
+            if (message.type === 'negotiate') {
+                this.negotiate(socket, message);
+                return;
+            }
+
+            const request: MockRequest = {
+                requestId: message.request_id,
+                method: message.type,
+                params: message.params,
+                endpoint: socket.endpoint,
+            };
+            this.requests.push(request);
+            this.notify(request);
+            this.respond(socket, request);
+        });
+    }
+
+    // Picks the first encoding the client offers that this server knows; the reply itself still uses JSON.
+    private negotiate(socket: MockSocket, message: any) {
+        const offered: string[] = message.params?.encodings ?? [];
+        const codec = offered
+            .map(name => this.codecs.find(codec => codec.name === name))
+            .find(codec => codec !== undefined) ?? JsonCodec;
+
+        socket.deliver({ request_id: message.request_id, result: { encoding: codec.name } });
+        socket.codec = codec;
+    }
+
+    private notify(request: MockRequest) {
+        this.waiters = this.waiters.filter(waiter => {
+            if (waiter.method !== null && waiter.method !== request.method) return true;
+            waiter.resolve(request);
+            return false;
+        });
+    }
+
+    private async respond(socket: MockSocket, request: MockRequest) {
+        const route = this.routes.get(request.method)
+            ?? { kind: 'fail', error: { message: `Unknown method ${request.method}` } } as MockRoute;
+
+        if (route.kind === 'hang') return;
+        if (route.kind === 'fail') {
+            socket.deliver(this.errorMessage(request, route.error));
+            return;
+        }
+
+        try {
+            const result = await route.handler(request.params, request);
+            socket.deliver({ request_id: request.requestId, result });
+        } catch (e) {
+            const error = e as any;
+            socket.deliver(this.errorMessage(request, {
+                code: error?.code,
+                name: error?.name,
+                message: error?.message,
+            }));
+        }
+    }
+
+    // Shaped like a nodeos error body.
+    private errorMessage(request: MockRequest, error: MockErrorReply) {
+        const what = error.what ?? error.message ?? 'Internal Service Error';
+
+        return {
+            request_id: request.requestId,
+            type: 'error',
+            code: 500,
+            message: 'Internal Service Error',
+            error: {
+                code: error.code ?? 0,
+                name: error.name ?? 'exception',
+                what,
+                details: error.details ?? [{ message: error.message ?? what }],
+            },
+        };
+    }
+}
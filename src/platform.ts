@@ -0,0 +1,43 @@
+export type WebSocketConstructor = new (url: string, protocols?: string | string[], options?: any) => any;
+
+export interface ResolveWebSocketOptions {
+    // The third constructor argument is needed; built-in WebSockets (browsers, Node 22+) ignore it.
+    nodeOptions?: boolean;
+    // Fail rather than fall back to a WebSocket that would silently drop the options, e.g. custom headers.
+    requireNodeOptions?: boolean;
+}
+
+const requireWs = (): WebSocketConstructor | null => {
+    try {
+        const ws = typeof require === 'function' ? require('ws') : null;
+        const WebSocketClass = ws?.WebSocket ?? ws?.default ?? ws;
+        if (typeof WebSocketClass === 'function') return WebSocketClass;
+    } catch (e) {
+        // Not installed, or bundled for a runtime without it.
+    }
+    return null;
+};
+
+// Resolved on first connect rather than at import, so runtimes without 'ws' can still load the module.
+export const resolveWebSocketClass = (
+    injected?: WebSocketConstructor,
+    options: ResolveWebSocketOptions = {}
+): WebSocketConstructor => {
+    if (injected) return injected;
+
+    if (options.nodeOptions || options.requireNodeOptions) {
+        const ws = requireWs();
+        if (ws) return ws;
+        if (options.requireNodeOptions) {
+            throw new Error('Custom headers need the "ws" package or a "webSocketClass" that accepts them; the built-in WebSocket cannot send headers.');
+        }
+    }
+
+    const globalWebSocket = (globalThis as any).WebSocket;
+    if (typeof globalWebSocket === 'function') return globalWebSocket;
+
+    const ws = requireWs();
+    if (ws) return ws;
+
+    throw new Error('WebSocket is not available. Please install "ws" package for Node.js environment or pass the "webSocketClass" option.');
+};
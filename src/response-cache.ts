@@ -0,0 +1,131 @@
+export interface CacheEntry {
+    value: any;
+    expiresAt: number;
+}
+
+export interface CacheStorage {
+    get(key: string): Promise<CacheEntry | undefined> | CacheEntry | undefined;
+    set(key: string, entry: CacheEntry): Promise<void> | void;
+    delete(key: string): Promise<void> | void;
+    keys(): Promise<string[]> | string[];
+}
+
+export interface CacheOptions {
+    ttl?: { [method: string]: number };
+    storage?: CacheStorage;
+    watchAbiChanges?: boolean;
+}
+
+export const DEFAULT_CACHE_TTL: { [method: string]: number } = {
+    get_abi: 10 * 60 * 1000,
+    get_raw_abi: 10 * 60 * 1000,
+    get_raw_code_and_abi: 10 * 60 * 1000,
+};
+
+const ACCOUNT_METHODS = ['get_abi', 'get_raw_abi', 'get_raw_code_and_abi', 'get_code', 'get_code_hash'];
+
+const stableStringify = (value: any): string => {
+    if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+    if (value && typeof value === 'object') {
+        return `{${Object.keys(value).sort().map(key => `${JSON.stringify(key)}:${stableStringify(value[key])}`).join(',')}}`;
+    }
+    return JSON.stringify(value) ?? 'null';
+};
+
+export class MemoryCacheStorage implements CacheStorage {
+    private entries: Map<string, CacheEntry> = new Map();
+
+    public get(key: string): CacheEntry | undefined {
+        return this.entries.get(key);
+    }
+
+    public set(key: string, entry: CacheEntry) {
+        this.entries.set(key, entry);
+    }
+
+    public delete(key: string) {
+        this.entries.delete(key);
+    }
+
+    public keys(): string[] {
+        return Array.from(this.entries.keys());
+    }
+}
+
+export class ResponseCache {
+    private ttl: { [method: string]: number };
+    private storage: CacheStorage;
+    private inflight: Map<string, Promise<any>> = new Map();
+    private generation: number = 0;
+
+    constructor(options: CacheOptions = {}) {
+        this.ttl = options.ttl ?? DEFAULT_CACHE_TTL;
+        this.storage = options.storage ?? new MemoryCacheStorage();
+    }
+
+    public handles(method: string): boolean {
+        return this.ttl[method] !== undefined && this.ttl[method] > 0;
+    }
+
+    public key(method: string, params: any): string {
+        return `${method}:${stableStringify(params || {})}`;
+    }
+
+    // Concurrent identical calls share one request; a value loaded across an invalidation is not stored.
+    public fetch<T>(method: string, params: any, load: () => Promise<T>): Promise<T> {
+        if (!this.handles(method)) return load();
+
+        const key = this.key(method, params);
+        const inflight = this.inflight.get(key);
+        if (inflight) return inflight;
+
+        const generation = this.generation;
+        const promise = (async () => {
+            const entry = await this.storage.get(key);
+            if (entry && entry.expiresAt > Date.now()) return entry.value as T;
+
+            const value = await load();
+            if (generation === this.generation) {
+                await this.storage.set(key, { value, expiresAt: Date.now() + this.ttl[method] });
+            }
+            return value;
+        })().finally(() => {
+            if (this.inflight.get(key) === promise) this.inflight.delete(key);
+        });
+
+        this.inflight.set(key, promise);
+        return promise;
+    }
+
+    public async invalidate(method?: string, params?: any): Promise<void> {
+        if (method !== undefined && params !== undefined) {
+            await this.remove([this.key(method, params)]);
+            return;
+        }
+
+        const keys = await this.storage.keys();
+        await this.remove(method === undefined ? keys : keys.filter(key => key.startsWith(`${method}:`)));
+    }
+
+    public async invalidateAccount(account: string): Promise<void> {
+        const keys = await this.storage.keys();
+        await this.remove(keys.filter(key => {
+            const separator = key.indexOf(':');
+            if (!ACCOUNT_METHODS.includes(key.substring(0, separator))) return false;
+
+            try {
+                return JSON.parse(key.substring(separator + 1)).account_name === account;
+            } catch (e) {
+                return false;
+            }
+        }));
+    }
+
+    private async remove(keys: string[]) {
+        this.generation++;
+        keys.forEach(key => this.inflight.delete(key));
+        for (const key of keys) {
+            await this.storage.delete(key);
+        }
+    }
+}
@@ -0,0 +1,75 @@
+export interface RetryPolicy {
+    readonly maxRetries: number;
+    reconnectDelay(attempt: number): number | null;
+    requestRetryDelay(method: string, attempt: number, error: Error): number | null;
+}
+
+export interface BackoffRetryOptions {
+    initialDelay?: number;
+    maxDelay?: number;
+    factor?: number;
+    jitter?: number;
+    maxRetries?: number | 'infinite';
+    requestRetries?: number;
+    retryMethods?: string[] | ((method: string) => boolean);
+}
+
+export const NON_IDEMPOTENT_METHODS: ReadonlySet<string> = new Set([
+    'push_transaction',
+    'push_transactions',
+    'send_transaction',
+    'send_transaction2',
+]);
+
+export const isIdempotentMethod = (method: string): boolean => {
+    return !NON_IDEMPOTENT_METHODS.has(method);
+};
+
+const isReadMethod = (method: string): boolean => {
+    return method.startsWith('get_') || method === 'push_ro_transaction';
+};
+
+export class BackoffRetryPolicy implements RetryPolicy {
+    public readonly maxRetries: number;
+
+    private initialDelay: number;
+    private maxDelay: number;
+    private factor: number;
+    private jitter: number;
+    private requestRetries: number;
+    private retryMethod: (method: string) => boolean;
+
+    constructor(options: BackoffRetryOptions = {}) {
+        this.initialDelay = options.initialDelay ?? 1000;
+        this.maxDelay = options.maxDelay ?? 30000;
+        this.factor = options.factor ?? 2;
+        this.jitter = Math.min(Math.max(options.jitter ?? 0.5, 0), 1);
+        this.maxRetries = options.maxRetries === 'infinite' ? Infinity : options.maxRetries ?? 10;
+        this.requestRetries = options.requestRetries ?? 2;
+
+        const retryMethods = options.retryMethods;
+        if (typeof retryMethods === 'function') {
+            this.retryMethod = retryMethods;
+        } else if (Array.isArray(retryMethods)) {
+            const methods = new Set(retryMethods);
+            this.retryMethod = (method) => methods.has(method);
+        } else {
+            this.retryMethod = isReadMethod;
+        }
+    }
+
+    public reconnectDelay(attempt: number): number | null {
+        if (attempt > this.maxRetries) return null;
+        return this.delay(attempt);
+    }
+
+    public requestRetryDelay(method: string, attempt: number, _error: Error): number | null {
+        if (attempt > this.requestRetries || !this.retryMethod(method)) return null;
+        return this.delay(attempt);
+    }
+
+    private delay(attempt: number): number {
+        const base = Math.min(this.maxDelay, this.initialDelay * Math.pow(this.factor, attempt - 1));
+        return Math.round(base - base * this.jitter * Math.random());
+    }
+}
@@ -0,0 +1,114 @@
+import { WaxStreamOverflowError } from './errors';
+import type { Subscription } from './websocket-rpc';
+
+export type OverflowPolicy = 'drop-oldest' | 'drop-newest' | 'error';
+
+export interface StreamOptions {
+    bufferSize?: number;
+    overflow?: OverflowPolicy;
+}
+
+interface Waiter<T> {
+    resolve: (result: IteratorResult<T>) => void;
+    reject: (error: Error) => void;
+}
+
+export class SubscriptionStream<T> implements AsyncIterableIterator<T> {
+    public dropped: number = 0;
+
+    private bufferSize: number;
+    private overflow: OverflowPolicy;
+
+    private buffer: T[] = [];
+    private waiters: Waiter<T>[] = [];
+    private done: boolean = false;
+    private error: Error | null = null;
+    private subscription: Subscription;
+
+    constructor(subscribe: (push: (item: T) => void) => Subscription, options: StreamOptions = {}) {
+        this.bufferSize = options.bufferSize ?? 1000;
+        this.overflow = options.overflow ?? 'drop-oldest';
+
+        this.subscription = subscribe(item => this.push(item));
+        this.subscription.onError(error => this.fail(error));
+    }
+
+    public get ready(): Promise<void> {
+        return this.subscription.ready;
+    }
+
+    public get buffered(): number {
+        return this.buffer.length;
+    }
+
+    public next(): Promise<IteratorResult<T>> {
+        if (this.buffer.length > 0) {
+            return Promise.resolve({ value: this.buffer.shift()!, done: false });
+        }
+        if (this.error) {
+            const error = this.error;
+            this.error = null;
+            return Promise.reject(error);
+        }
+        if (this.done) {
+            return Promise.resolve({ value: undefined, done: true });
+        }
+
+        return new Promise<IteratorResult<T>>((resolve, reject) => {
+            this.waiters.push({ resolve, reject });
+        });
+    }
+
+    public async return(): Promise<IteratorResult<T>> {
+        this.finish();
+        await this.subscription.unsubscribe();
+        return { value: undefined, done: true };
+    }
+
+    public [Symbol.asyncIterator](): AsyncIterableIterator<T> {
+        return this;
+    }
+
+    private push(item: T) {
+        if (this.done) return;
+
+        const waiter = this.waiters.shift();
+        if (waiter) {
+            waiter.resolve({ value: item, done: false });
+            return;
+        }
+
+        if (this.buffer.length >= this.bufferSize) {
+            if (this.overflow === 'error') {
+                this.fail(new WaxStreamOverflowError(this.bufferSize));
+                return;
+            }
+
+            this.dropped++;
+            if (this.overflow === 'drop-newest') return;
+            this.buffer.shift();
+        }
+
+        this.buffer.push(item);
+    }
+
+    // Items already buffered are still delivered before the error is thrown.
+    private fail(error: Error) {
+        if (this.done) return;
+
+        this.error = error;
+        const waiters = this.waiters.splice(0);
+        if (waiters.length > 0) {
+            this.error = null;
+            waiters.forEach(waiter => waiter.reject(error));
+        }
+
+        this.finish();
+        this.subscription.unsubscribe().catch(() => {});
+    }
+
+    private finish() {
+        this.done = true;
+        this.waiters.splice(0).forEach(waiter => waiter.resolve({ value: undefined, done: true }));
+    }
+}
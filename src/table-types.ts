@@ -0,0 +1,54 @@
+import { GetTableByScopeResultRow } from 'eosjs/dist/eosjs-rpc-interfaces';
+
+export type TableKeyType = 'i64' | 'i128' | 'i256' | 'float64' | 'float128' | 'sha256' | 'ripemd160' | 'name';
+
+export type TableIndexPosition =
+    | 'primary' | 'secondary' | 'tertiary' | 'fourth' | 'fifth'
+    | 'sixth' | 'seventh' | 'eighth' | 'ninth' | 'tenth'
+    | 1 | 2 | 3 | 4 | 5 | 6 | 7 | 8 | 9 | 10;
+
+export type TableBound = string | number;
+
+export interface GetTableRowsParams {
+    json?: boolean;
+    code: string;
+    scope: string;
+    table: string;
+    lower_bound?: TableBound;
+    upper_bound?: TableBound;
+    index_position?: TableIndexPosition;
+    key_type?: TableKeyType | '';
+    limit?: number;
+    reverse?: boolean;
+    show_payer?: boolean;
+}
+
+export interface TableRowsResult<T = any> {
+    rows: T[];
+    more: boolean;
+    next_key: string;
+    next_key_bytes?: string;
+}
+
+export interface TableRowWithPayer<T = any> {
+    data: T;
+    payer: string;
+}
+
+export interface GetTableByScopeParams {
+    code: string;
+    table?: string;
+    lower_bound?: string;
+    upper_bound?: string;
+    limit?: number;
+    reverse?: boolean;
+}
+
+export interface TableByScopeResult {
+    rows: GetTableByScopeResultRow[];
+    more: string;
+}
+
+export interface IterateOptions {
+    maxRows?: number;
+}
@@ -0,0 +1,92 @@
+import { WaxRpcError } from './errors';
+import { Instrumentation, RequestEndEvent, RequestStartEvent } from './instrumentation';
+
+export type SpanAttributes = { [key: string]: string | number | boolean };
+
+// The parts of the @opentelemetry/api Tracer and Span this adapter uses, so a real tracer can be
+// passed in without this package depending on OpenTelemetry.
+export interface SpanLike {
+    setAttribute(key: string, value: string | number | boolean): any;
+    setStatus(status: { code: number, message?: string }): any;
+    recordException(exception: Error): any;
+    end(endTime?: number): void;
+}
+
+export interface TracerLike {
+    startSpan(name: string, options?: { kind?: number, attributes?: SpanAttributes, startTime?: number }): SpanLike;
+}
+
+export interface TracingOptions {
+    spanName?: (method: string) => string;
+    // Request params can be large, so they are only recorded when asked for.
+    recordParams?: boolean;
+    attributes?: SpanAttributes;
+}
+
+// Values of the OpenTelemetry SpanKind and SpanStatusCode enums.
+const SPAN_KIND_CLIENT = 2;
+const SPAN_STATUS_OK = 1;
+const SPAN_STATUS_ERROR = 2;
+
+const serverAttributes = (endpoint: string): SpanAttributes => {
+    try {
+        const url = new URL(endpoint);
+        return url.port
+            ? { 'server.address': url.hostname, 'server.port': Number(url.port) }
+            : { 'server.address': url.hostname };
+    } catch (e) {
+        return { 'server.address': endpoint };
+    }
+};
+
+// Wraps every call() in a client span; the span starts inside call(), so it picks up the caller's active context.
+export class TracingInstrumentation implements Instrumentation {
+    private tracer: TracerLike;
+    private options: TracingOptions;
+    private spans: Map<string, SpanLike> = new Map();
+
+    constructor(tracer: TracerLike, options: TracingOptions = {}) {
+        this.tracer = tracer;
+        this.options = options;
+    }
+
+    public onRequestStart(event: RequestStartEvent) {
+        const attributes: SpanAttributes = {
+            ...this.options.attributes,
+            'rpc.system': 'wax-ws-rpc',
+            'rpc.method': event.method,
+            'wax.request_id': event.requestId,
+            'wax.queue_depth': event.queueDepth,
+            ...serverAttributes(event.endpoint),
+        };
+        if (this.options.recordParams) attributes['wax.params'] = JSON.stringify(event.params ?? null);
+
+        const name = this.options.spanName ? this.options.spanName(event.method) : `wax-ws-rpc/${event.method}`;
+        this.spans.set(event.requestId, this.tracer.startSpan(name, {
+            kind: SPAN_KIND_CLIENT,
+            attributes,
+            startTime: event.startedAt,
+        }));
+    }
+
+    public onRequestEnd(event: RequestEndEvent) {
+        const span = this.spans.get(event.requestId);
+        if (!span) return;
+        this.spans.delete(event.requestId);
+
+        // A failover may have moved the request to another node.
+        Object.entries(serverAttributes(event.endpoint)).forEach(([key, value]) => span.setAttribute(key, value));
+
+        if (event.error) {
+            span.recordException(event.error);
+            span.setAttribute('error.type', event.error.name);
+            // The nodeos error code is more telling than the HTTP status it comes wrapped in.
+            const code = event.error instanceof WaxRpcError ? event.error.json?.error?.code ?? event.error.code : undefined;
+            if (code !== undefined) span.setAttribute('wax.error_code', code);
+            span.setStatus({ code: SPAN_STATUS_ERROR, message: event.error.message });
+        } else {
+            span.setStatus({ code: SPAN_STATUS_OK });
+        }
+        span.end(event.startedAt + event.duration);
+    }
+}
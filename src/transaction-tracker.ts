@@ -0,0 +1,217 @@
+import { TypedEventEmitter } from './event-emitter';
+import { WaxRpcAbortedError, WaxRpcTimeoutError, WaxTransactionError } from './errors';
+import type { Subscription, WebsocketJsonRpc } from './websocket-rpc';
+
+export type TransactionStage = 'accepted' | 'included' | 'forked' | 'irreversible' | 'failed' | 'expired';
+
+export interface TransactionStatus {
+    stage: TransactionStage;
+    txId: string;
+    blockNum: number | null;
+    lastIrreversibleBlock: number | null;
+}
+
+export interface TrackTransactionOptions {
+    blockHint?: number;
+    startBlock?: number;
+    expiration?: Date | string | number;
+    timeout?: number;
+    pollInterval?: number;
+    actions?: Array<{ account: string; name: string }>;
+}
+
+export interface TransactionTrackerEvents {
+    stage: (status: TransactionStatus) => void;
+}
+
+const DEFAULT_TIMEOUT = 5 * 60 * 1000;
+const EXPIRATION_MARGIN = 3000;
+
+// nodeos block times are UTC but carry no zone designator.
+const parseChainTime = (time: string): number => {
+    return Date.parse(/[zZ]|[+-]\d\d:?\d\d$/.test(time) ? time : `${time}Z`);
+};
+
+const toTimestamp = (value: Date | string | number): number => {
+    if (value instanceof Date) return value.getTime();
+    if (typeof value === 'number') return value < 1e12 ? value * 1000 : value;
+    return parseChainTime(value);
+};
+
+export class TransactionTracker extends TypedEventEmitter<TransactionTrackerEvents> {
+    public readonly txId: string;
+    public readonly included: Promise<TransactionStatus>;
+    public readonly irreversible: Promise<TransactionStatus>;
+
+    private rpc: WebsocketJsonRpc;
+    private options: TrackTransactionOptions;
+    private status: TransactionStatus;
+
+    private scanFrom: number | null;
+    private candidates: Set<number> = new Set();
+    private subscriptions: Subscription[] = [];
+    private pollTimer: any;
+    private timeoutTimer: any;
+    private stopped: boolean = false;
+
+    private resolveIncluded: (status: TransactionStatus) => void = () => {};
+    private rejectIncluded: (error: Error) => void = () => {};
+    private resolveIrreversible: (status: TransactionStatus) => void = () => {};
+    private rejectIrreversible: (error: Error) => void = () => {};
+
+    constructor(rpc: WebsocketJsonRpc, txId: string, options: TrackTransactionOptions = {}) {
+        super();
+        this.rpc = rpc;
+        this.txId = txId;
+        this.options = options;
+        this.status = { stage: 'accepted', txId, blockNum: null, lastIrreversibleBlock: null };
+        this.scanFrom = options.startBlock ?? options.blockHint ?? null;
+        if (options.blockHint !== undefined) this.candidates.add(options.blockHint);
+
+        this.included = new Promise((resolve, reject) => {
+            this.resolveIncluded = resolve;
+            this.rejectIncluded = reject;
+        });
+        this.irreversible = new Promise((resolve, reject) => {
+            this.resolveIrreversible = resolve;
+            this.rejectIrreversible = reject;
+        });
+        // Callers may only await one of the two promises.
+        this.included.catch(() => {});
+        this.irreversible.catch(() => {});
+
+        (options.actions || []).forEach(({ account, name }) => {
+            this.subscriptions.push(this.rpc.subscribeTrace(`${account}::${name}`, (trace) => {
+                if (trace.tx_id === this.txId) this.candidates.add(trace.block_num);
+            }));
+        });
+
+        const expiration = options.expiration !== undefined ? toTimestamp(options.expiration) : null;
+        const timeout = options.timeout ?? (expiration !== null
+            ? Math.max(0, expiration - Date.now()) + DEFAULT_TIMEOUT
+            : DEFAULT_TIMEOUT);
+        this.timeoutTimer = setTimeout(() => {
+            this.fail(null, new WaxRpcTimeoutError(timeout, { method: 'trackTransaction', params: { txId } }));
+        }, timeout);
+
+        this.poll();
+    }
+
+    public get current(): TransactionStatus {
+        return { ...this.status };
+    }
+
+    public stop() {
+        if (this.stopped) return;
+        this.stopped = true;
+
+        const error = new WaxRpcAbortedError({ method: 'trackTransaction', params: { txId: this.txId } });
+        this.rejectIncluded(error);
+        this.rejectIrreversible(error);
+
+        clearTimeout(this.pollTimer);
+        clearTimeout(this.timeoutTimer);
+        this.subscriptions.forEach(subscription => subscription.unsubscribe().catch(() => {}));
+        this.subscriptions = [];
+    }
+
+    private async poll() {
+        if (this.stopped) return;
+
+        try {
+            await this.check();
+        } catch (e) {
+            // Transport errors are transient here; the overall timeout bounds the tracking.
+        }
+
+        if (!this.stopped) {
+            this.pollTimer = setTimeout(() => this.poll(), this.options.pollInterval ?? 1000);
+        }
+    }
+
+    private async check() {
+        const info = await this.rpc.get_info();
+        this.status.lastIrreversibleBlock = info.last_irreversible_block_num;
+        // Without a hint the transaction may already be in any block since the last irreversible one.
+        if (this.scanFrom === null) this.scanFrom = info.last_irreversible_block_num;
+
+        if (this.status.blockNum === null) {
+            await this.search(info.head_block_num);
+        }
+
+        if (this.status.blockNum !== null && info.last_irreversible_block_num >= this.status.blockNum) {
+            // The block is final now; if it no longer holds the transaction, a fork removed it.
+            if (await this.blockContains(this.status.blockNum)) {
+                this.setStage('irreversible');
+                this.resolveIrreversible(this.current);
+                this.stop();
+                return;
+            }
+
+            this.scanFrom = this.status.blockNum;
+            this.status.blockNum = null;
+            this.setStage('forked');
+            await this.search(info.head_block_num);
+        }
+
+        if (this.status.blockNum === null && this.options.expiration !== undefined) {
+            const expiration = toTimestamp(this.options.expiration);
+            const lastIrreversibleTime = info.last_irreversible_block_time ?? info.head_block_time;
+            if (parseChainTime(lastIrreversibleTime) > expiration + EXPIRATION_MARGIN) {
+                this.fail('expired', new WaxTransactionError("Transaction expired", this.txId, 'expired'));
+            }
+        }
+    }
+
+    private async search(headBlock: number) {
+        for (const blockNum of Array.from(this.candidates)) {
+            if (this.stopped) return;
+            this.candidates.delete(blockNum);
+            if (await this.blockContains(blockNum)) return this.markIncluded(blockNum);
+        }
+
+        while (this.scanFrom !== null && this.scanFrom <= headBlock && !this.stopped) {
+            const blockNum = this.scanFrom;
+            if (await this.blockContains(blockNum)) return this.markIncluded(blockNum);
+            this.scanFrom = blockNum + 1;
+        }
+    }
+
+    private markIncluded(blockNum: number) {
+        this.status.blockNum = blockNum;
+        this.setStage('included');
+        this.resolveIncluded(this.current);
+    }
+
+    private async blockContains(blockNum: number): Promise<boolean> {
+        const block = await this.rpc.get_block(blockNum);
+        const receipt = (block.transactions || []).find((tx: any) => {
+            return (typeof tx.trx === 'string' ? tx.trx : tx.trx?.id) === this.txId;
+        });
+        if (!receipt) return false;
+
+        if (receipt.status && receipt.status !== 'executed') {
+            this.fail('failed', new WaxTransactionError(`Transaction ${receipt.status}`, this.txId, 'failed', blockNum));
+            return false;
+        }
+        return true;
+    }
+
+    private setStage(stage: TransactionStage) {
+        this.status.stage = stage;
+        this.emitStage();
+    }
+
+    private emitStage() {
+        this.emit('stage', this.current);
+    }
+
+    private fail(stage: TransactionStage | null, error: Error) {
+        if (this.stopped) return;
+
+        if (stage) this.setStage(stage);
+        this.rejectIncluded(error);
+        this.rejectIrreversible(error);
+        this.stop();
+    }
+}
@@ -0,0 +1,59 @@
+import { WebSocketConstructor, resolveWebSocketClass } from './platform';
+
+export interface TransportCloseEvent {
+    code?: number;
+    reason?: any;
+}
+
+// The subset of the WHATWG WebSocket API the client relies on.
+export interface TransportSocket {
+    binaryType?: string;
+    onopen: ((event?: any) => void) | null;
+    onmessage: ((event: { data: any }) => void) | null;
+    onclose: ((event: TransportCloseEvent) => void) | null;
+    onerror: ((error: any) => void) | null;
+    send(data: string | Uint8Array): void;
+    close(code?: number, reason?: string): void;
+    terminate?(): void;
+}
+
+export interface TransportOpenOptions {
+    protocols?: string | string[];
+    headers?: { [name: string]: string };
+}
+
+export interface Transport {
+    open(endpoint: string, options?: TransportOpenOptions): TransportSocket;
+}
+
+export interface WebSocketTransportOptions {
+    // Passed to 'ws'; browsers negotiate compression on their own.
+    perMessageDeflate?: boolean | object;
+}
+
+export class WebSocketTransport implements Transport {
+    private webSocketClass: WebSocketConstructor | null;
+    private options: WebSocketTransportOptions;
+
+    constructor(webSocketClass?: WebSocketConstructor, options: WebSocketTransportOptions = {}) {
+        this.webSocketClass = webSocketClass ?? null;
+        this.options = options;
+    }
+
+    // Built-in WebSockets (browsers, Node 22+) only take the first two arguments, so headers and
+    // perMessageDeflate pick 'ws' over them. Headers fail outright without it rather than being dropped.
+    public open(endpoint: string, options: TransportOpenOptions = {}): TransportSocket {
+        const settings: { perMessageDeflate?: boolean | object, headers?: { [name: string]: string } } = {};
+        if (this.options.perMessageDeflate !== undefined) settings.perMessageDeflate = this.options.perMessageDeflate;
+        if (options.headers && Object.keys(options.headers).length > 0) settings.headers = options.headers;
+
+        const WebSocketClass = resolveWebSocketClass(this.webSocketClass ?? undefined, {
+            nodeOptions: Object.keys(settings).length > 0,
+            requireNodeOptions: settings.headers !== undefined,
+        });
+
+        if (Object.keys(settings).length > 0) return new WebSocketClass(endpoint, options.protocols, settings);
+        if (options.protocols !== undefined) return new WebSocketClass(endpoint, options.protocols);
+        return new WebSocketClass(endpoint);
+    }
+}
@@ -0,0 +1,135 @@
+import { APIProvider, APIResponse, FetchProvider, FetchProviderOptions } from '@wharfkit/antelope';
+import { WaxRpcError } from './errors';
+import { NON_IDEMPOTENT_METHODS } from './retry-policy';
+import { WaxRpcOptions, WebsocketJsonRpc } from './websocket-rpc';
+
+// 'ws' falls back to HTTP when the socket fails, 'ws-only' never does, 'http' skips the socket.
+export type ProviderRoute = 'ws' | 'ws-only' | 'http';
+
+export type ProviderRoutes = { [pathPattern: string]: ProviderRoute };
+
+// `fetch` and `headers` configure the HTTP fallback when it is given as a URL; `rpcOptions` the client when it is given as endpoints.
+export interface WebSocketProviderOptions extends FetchProviderOptions {
+    routes?: ProviderRoutes;
+    rpcOptions?: WaxRpcOptions;
+}
+
+// History is tried on the socket too: a node without it answers "unknown method" and the call falls back to HTTP.
+export const DEFAULT_PROVIDER_ROUTES: ProviderRoutes = {
+    '/v1/chain/*': 'ws',
+    '/v1/history/*': 'ws',
+    // A transaction the socket may already have delivered must not be pushed a second time.
+    ...Object.fromEntries(Array.from(NON_IDEMPOTENT_METHODS).map(method => [`/v1/chain/${method}`, 'ws-only'])),
+};
+
+// A node that does not serve a namespace answers like this; HTTP may still have it.
+const isUnknownMethod = (error: WaxRpcError): boolean => {
+    return /unknown (method|endpoint)|method not found/i.test(error.message);
+};
+
+const matchesPath = (pattern: string, path: string): boolean => {
+    const expression = pattern.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*');
+    return new RegExp(`^${expression}$`).test(path);
+};
+
+// Chain methods keep their bare names on the socket; other namespaces are prefixed, e.g. 'history/get_actions'.
+export const pathToMethod = (path: string): string => {
+    const match = path.match(/^\/v1\/([^/]+)\/(.+)$/);
+    if (!match) return path.replace(/^\/+/, '');
+
+    return match[1] === 'chain' ? match[2] : `${match[1]}/${match[2]}`;
+};
+
+export class WebSocketProvider implements APIProvider {
+    public readonly client: WebsocketJsonRpc;
+    public readonly fallbackProvider: APIProvider | null;
+
+    private routes: ProviderRoutes;
+
+    constructor(
+        client: WebsocketJsonRpc | string | string[],
+        fallback: APIProvider | string | null = null,
+        options: WebSocketProviderOptions = {}
+    ) {
+        const { routes, rpcOptions, ...fetchOptions } = options;
+
+        this.client = client instanceof WebsocketJsonRpc ? client : new WebsocketJsonRpc(client, rpcOptions);
+        this.fallbackProvider = typeof fallback === 'string' ? new FetchProvider(fallback, fetchOptions) : fallback;
+        this.routes = { ...DEFAULT_PROVIDER_ROUTES, ...routes };
+    }
+
+    // An exact path wins over patterns; among patterns the longest one wins.
+    public route(path: string): ProviderRoute {
+        if (this.routes[path]) return this.routes[path];
+
+        const pattern = Object.keys(this.routes)
+            .filter(pattern => pattern.includes('*') && matchesPath(pattern, path))
+            .sort((a, b) => b.length - a.length)[0];
+
+        return pattern ? this.routes[pattern] : 'http';
+    }
+
+    async call(args: {
+        path: string;
+        params?: unknown;
+    }): Promise<APIResponse> {
+        const route = this.route(args.path);
+        if (route === 'http') return this.callFallback(args);
+
+        const apiName = pathToMethod(args.path);
+
+        try {
+            const result = await this.client.call(apiName, args.params || {});
+
+            return {
+                status: 200,
+                headers: {},
+                json: result,
+                text: JSON.stringify(result),
+            };
+        } catch (err) {
+            const canFallBack = route !== 'ws-only' && this.fallbackProvider !== null;
+
+            // The node answered, so HTTP would only repeat the same error, unless the node does not know the method.
+            if (err instanceof WaxRpcError && err.json) {
+                if (!canFallBack || !isUnknownMethod(err)) return this.errorResponse(err);
+            } else if (!canFallBack) {
+                throw err;
+            }
+
+            console.warn(`WS call for ${apiName} failed, falling back to HTTP...`, err);
+        }
+
+        return this.callFallback(args);
+    }
+
+    private callFallback(args: { path: string; params?: unknown }): Promise<APIResponse> {
+        if (!this.fallbackProvider) {
+            return Promise.reject(new Error(`No HTTP fallback configured for ${args.path}`));
+        }
+        return this.fallbackProvider.call(args);
+    }
+
+    // Shapes the socket error like a nodeos HTTP error body so wharfkit raises a proper APIError.
+    private errorResponse(error: WaxRpcError): APIResponse {
+        const msg = error.json;
+        const status = typeof msg.code === 'number' && msg.code >= 400 && msg.code < 600 ? msg.code : 500;
+        const json = {
+            code: status,
+            message: msg.message ?? 'Internal Service Error',
+            error: msg.error ?? {
+                code: typeof error.code === 'number' ? error.code : 0,
+                name: 'exception',
+                what: error.message,
+                details: error.details,
+            },
+        };
+
+        return {
+            status,
+            headers: {},
+            json,
+            text: JSON.stringify(json),
+        };
+    }
+}
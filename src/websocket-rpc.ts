@@ -17,15 +17,51 @@ import {
     GetRawCodeAndAbiResult,
     GetRawAbiResult,
     GetScheduledTransactionsResult,
-    GetTableRowsResult,
     PushTransactionArgs,
     PackedTrx,
     ReadOnlyTransactResult,
     GetBlockHeaderStateResult,
-    GetTableByScopeResult
+    GetTableByScopeResultRow
 } from 'eosjs/dist/eosjs-rpc-interfaces';
 import { Authorization } from 'eosjs/dist/eosjs-serialize';
-import { APIProvider, APIResponse, FetchProvider } from '@wharfkit/antelope';
+import { EndpointHealth, EndpointPool } from './endpoint-pool';
+import { TypedEventEmitter } from './event-emitter';
+import {
+    WaxAuthError,
+    WaxConnectionClosedError,
+    WaxQueueOverflowError,
+    WaxRpcAbortedError,
+    WaxRpcError,
+    WaxRpcErrorContext,
+    WaxRpcTimeoutError
+} from './errors';
+import { BackoffRetryPolicy, RetryPolicy, isIdempotentMethod } from './retry-policy';
+import {
+    TableFilter,
+    TraceFilter,
+    compileTableFilter,
+    compileTraceFilter,
+    matchesTableTarget,
+    matchesTraceTarget,
+    parseTraceTarget,
+    tableServerParams,
+    traceServerParams
+} from './filters';
+import { StreamOptions, SubscriptionStream } from './subscription-stream';
+import { CacheOptions, ResponseCache } from './response-cache';
+import {
+    GetTableByScopeParams,
+    GetTableRowsParams,
+    IterateOptions,
+    TableByScopeResult,
+    TableRowsResult
+} from './table-types';
+import { WebSocketConstructor } from './platform';
+import { Transport, TransportOpenOptions, WebSocketTransport } from './transport';
+import { JsonCodec, MessageCodec, resolveCodecs, toBytes } from './codecs';
+import { ContractBinding, ContractOptions } from './contract';
+import { TrackTransactionOptions, TransactionStatus, TransactionTracker } from './transaction-tracker';
+import { Instrumentation, RequestStartEvent } from './instrumentation';
 
 const arrayToHex = (data: Uint8Array): string => {
     let result = '';
@@ -57,18 +93,6 @@ const uuid = (): string => {
     return uuid;
 }
 
-let WebSocketClass: any;
-
-if (typeof window !== 'undefined' && window.WebSocket) {
-    WebSocketClass = window.WebSocket;
-} else {
-    try {
-        WebSocketClass = require('ws');
-    } catch (e) {
-        throw new Error('WebSocket is not available. Please install "ws" package for Node.js environment.');
-    }
-}
-
 export interface TableDelta<T = any> {
     type: 'table_delta';
     code: string;
@@ -79,6 +103,8 @@ export interface TableDelta<T = any> {
     action: 'INSERT' | 'UPDATE' | 'ERASE';
     data: T | null;
     old_data: T | null;
+    block_num?: number;
+    irreversible?: boolean;
 }
 
 export interface ActionTrace<T = any> {
@@ -95,6 +121,33 @@ export interface ActionTrace<T = any> {
         authorization: { actor: string; permission: string }[];
         data: T;
     };
+    irreversible?: boolean;
+}
+
+export type BlockStreamMode = 'head' | 'irreversible';
+
+export interface BlockHeader {
+    type: 'block';
+    mode: BlockStreamMode;
+    block_num: number;
+    block_id: string;
+    previous: string;
+    timestamp: string;
+    producer: string;
+    transaction_count?: number;
+    last_irreversible_block_num: number;
+    irreversible: boolean;
+}
+
+export interface BlockStreamOptions {
+    mode?: BlockStreamMode;
+}
+
+export interface ForkEvent {
+    undoneBlocks: number[];
+    previousHead: number;
+    newHead: number;
+    newHeadId: string;
 }
 
 interface RpcRequest {
@@ -103,97 +156,564 @@ interface RpcRequest {
     params?: any;
 }
 
+// `deadline` is when the current attempt times out; `expiresAt` is the caller's absolute limit.
+interface QueuedRequest {
+    payload: RpcRequest;
+    resolve: Function;
+    reject: Function;
+    priority: number;
+    timeout: number;
+    deadline: number;
+    expiresAt: number;
+}
+
+interface PendingRequest {
+    payload: RpcRequest;
+    resolve: Function;
+    reject: Function;
+    timeout: number;
+    deadline: number;
+    expiresAt: number;
+    socket: any;
+    endpoint: string;
+    sentAt: number;
+}
+
 export interface WaxRpcOptions {
     autoConnect?: boolean;
     autoReconnect?: boolean;
     reconnectInterval?: number;
     maxRetries?: number;
     requestTimeOut?: number;
+    connectTimeout?: number;
+    failoverThreshold?: number;
+    retryPolicy?: RetryPolicy;
+    maxQueueSize?: number;
+    methodTimeouts?: { [method: string]: number };
+    methodPriorities?: { [method: string]: number };
+    resumeSubscriptions?: boolean;
+    batchRequests?: boolean;
+    autoBatch?: boolean;
+    maxBatchSize?: number;
+    maxInFlight?: number;
+    cache?: boolean | CacheOptions;
+    webSocketClass?: WebSocketConstructor;
+    transport?: Transport;
+    encodings?: Array<string | MessageCodec>;
+    perMessageDeflate?: boolean | object;
+    protocols?: string | string[];
+    // Sent with the upgrade request; needs 'ws' or another implementation that accepts headers.
+    headers?: { [name: string]: string };
+    auth?: AuthOptions;
+    instrumentation?: Instrumentation | Instrumentation[];
 }
 
-export class WebsocketJsonRpc implements AuthorityProvider, AbiProvider {
-    public endpoint: string;
+export type TokenProvider = (endpoint: string) => string | Promise<string>;
 
-    private ws: any;
-    private isConnected: boolean = false;
-    private isConnecting: boolean = false;
+// 'header' sends `Authorization: Bearer <token>` with the upgrade request, 'query' adds the token
+// to the URL, and 'message' sends an auth request once the socket is open and waits for the ack.
+export interface AuthOptions {
+    token: string | TokenProvider;
+    via?: 'header' | 'query' | 'message';
+    queryParam?: string;
+    // Close codes that mean the server rejected the credentials.
+    closeCodes?: number[];
+}
+
+const DEFAULT_AUTH_CLOSE_CODES = [4001, 4003, 4401, 4403];
 
-    private pending: Map<string, { resolve: Function, reject: Function, timeout: any }> = new Map();
-    private queue: Array<{ payload: RpcRequest, resolve: Function, reject: Function }> = [];
+interface Handshake {
+    url: string;
+    options: TransportOpenOptions;
+    token: string | null;
+}
+
+export interface BatchRequest {
+    method: string;
+    params?: any;
+}
+
+export type SubscriptionType = 'table' | 'trace' | 'block';
+
+export interface SubscriptionGap {
+    type: SubscriptionType;
+    params: any;
+    fromBlock: number;
+    toBlock: number | null;
+}
 
-    private options: Required<WaxRpcOptions>;
+export interface Subscription {
+    (): Promise<void>;
+    readonly ready: Promise<void>;
+    readonly lastBlock: number | null;
+    unsubscribe(): Promise<void>;
+    onError(listener: (error: WaxRpcError) => void): Subscription;
+    onResubscribed(listener: () => void): Subscription;
+    onGap(listener: (gap: SubscriptionGap) => void): Subscription;
+}
+
+interface SubscriptionListener {
+    callback: (data: any) => void;
+    filter?: (data: any) => boolean;
+    errorListeners: Array<(error: WaxRpcError) => void>;
+    resubscribedListeners: Array<() => void>;
+    gapListeners: Array<(gap: SubscriptionGap) => void>;
+}
+
+interface ServerSubscription {
+    key: string;
+    type: SubscriptionType;
+    params: any;
+    requestId: string;
+    subscribed: boolean;
+    timeout: any;
+    lastBlock: number | null;
+    resumeFrom: number | null;
+    listeners: SubscriptionListener[];
+    ready: Promise<void>;
+    resolveReady: () => void;
+    rejectReady: (error: Error) => void;
+}
+
+export interface TransactAndWaitOptions extends TrackTransactionOptions {
+    waitFor?: 'included' | 'irreversible';
+    onStage?: (status: TransactionStatus) => void;
+}
+
+export interface TransactAndWaitResult {
+    result: TransactResult;
+    status: TransactionStatus;
+}
+
+// Higher priorities leave the queue first; pushes default to 1 and everything else to 0.
+export interface CallOptions {
+    signal?: AbortSignal;
+    timeout?: number;
+    deadline?: number | Date;
+    priority?: number;
+}
+
+export type ConnectionState = 'idle' | 'connecting' | 'open' | 'reconnecting' | 'closed';
+
+export interface ClientStats {
+    state: ConnectionState;
+    endpoint: string;
+    inFlight: number;
+    queued: number;
+    reconnectAttempts: number;
+    subscriptions: number;
+}
+
+export interface WaxRpcEvents {
+    connecting: (endpoint: string) => void;
+    open: (endpoint: string) => void;
+    close: (code: number, reason: string) => void;
+    reconnecting: (attempt: number, maxRetries: number, delay: number) => void;
+    reconnect_failed: () => void;
+    auth_failed: (error: WaxAuthError) => void;
+    error: (error: Error) => void;
+    message: (message: any) => void;
+    gap: (gap: SubscriptionGap) => void;
+    endpoint_changed: (endpoint: string, previous: string) => void;
+    fork: (fork: ForkEvent) => void;
+}
+
+export class WebsocketJsonRpc extends TypedEventEmitter<WaxRpcEvents> implements AuthorityProvider, AbiProvider {
+    public endpoint: string;
+    public readonly cache: ResponseCache | null = null;
+
+    private pool: EndpointPool;
+
+    private ws: any;
+    private connectionState: ConnectionState = 'idle';
+    private connectTimer: any;
+    private reconnectTimer: any;
+    private closed: boolean = false;
+    private connectPromise: Promise<void> | null = null;
+    private retryWaits: Set<{ timer: any, reject: Function }> = new Set();
+
+    private pending: Map<string, PendingRequest> = new Map();
+    private queue: QueuedRequest[] = [];
+    private sweepTimer: any;
+    private sweepAt: number = Infinity;
+
+    private outbox: RpcRequest[] = [];
+    private flushTimer: any;
+    private batchDepth: number = 0;
+
+    private options: Required<Omit<
+        WaxRpcOptions,
+        'webSocketClass' | 'transport' | 'encodings' | 'perMessageDeflate' | 'protocols' | 'headers' | 'auth' | 'instrumentation'
+    >>;
+    private transport: Transport;
+    private codecs: MessageCodec[];
+    private codec: MessageCodec = JsonCodec;
+    private handshakeReply: { requestId: string, finish: (reply?: any) => void } | null = null;
+    private protocols?: string | string[];
+    private headers?: { [name: string]: string };
+    private auth: AuthOptions | null;
+    private authCloseCodes: number[];
+    private instruments: Instrumentation[];
     private retryCount: number = 0;
 
     private heartbeatTimer: any;
     private readonly HEARTBEAT_INTERVAL = 30000;
 
-    private id: string = uuid();
-
-    private tableSubs: Map<string, Array<(data: TableDelta) => void>> = new Map();
-    private traceSubs: Map<string, Array<(data: ActionTrace) => void>> = new Map();
-
-    constructor(endpoint: string, options: WaxRpcOptions = {}) {
-        this.endpoint = endpoint.replace(/\/$/, '');
+    private subscriptions: Map<string, ServerSubscription> = new Map();
+    private headBlock: number | null = null;
+    private lastIrreversible: number | null = null;
+    private recentBlocks: Map<number, string> = new Map();
+    private subscriptionRequests: Map<string, ServerSubscription> = new Map();
+
+    constructor(endpoint: string | string[], options: WaxRpcOptions = {}) {
+        super();
+        this.pool = new EndpointPool(Array.isArray(endpoint) ? endpoint : [endpoint]);
+        this.endpoint = this.pool.active;
+        const reconnectInterval = options.reconnectInterval ?? 3000;
+        const maxRetries = options.maxRetries ?? 10;
         this.options = {
             autoConnect: options.autoConnect ?? true,
             autoReconnect: options.autoReconnect ?? true,
-            reconnectInterval: options.reconnectInterval ?? 3000,
-            maxRetries: options.maxRetries ?? 10,
+            reconnectInterval,
+            maxRetries,
             requestTimeOut: options.requestTimeOut ?? 5000,
+            connectTimeout: options.connectTimeout ?? 10000,
+            failoverThreshold: options.failoverThreshold ?? 3,
+            maxQueueSize: options.maxQueueSize ?? Infinity,
+            methodTimeouts: options.methodTimeouts ?? {},
+            methodPriorities: options.methodPriorities ?? {},
+            resumeSubscriptions: options.resumeSubscriptions ?? true,
+            batchRequests: options.batchRequests ?? false,
+            autoBatch: options.autoBatch ?? false,
+            maxBatchSize: options.maxBatchSize ?? 100,
+            maxInFlight: options.maxInFlight ?? Infinity,
+            cache: options.cache ?? false,
+            retryPolicy: options.retryPolicy ?? new BackoffRetryPolicy({
+                initialDelay: reconnectInterval,
+                factor: 1,
+                jitter: 0,
+                maxRetries,
+                requestRetries: 0,
+            }),
         };
+        this.transport = options.transport ?? new WebSocketTransport(options.webSocketClass, {
+            perMessageDeflate: options.perMessageDeflate,
+        });
+        this.codecs = resolveCodecs(options.encodings ?? ['json']);
+        this.protocols = options.protocols;
+        this.headers = options.headers;
+        this.auth = options.auth ?? null;
+        this.authCloseCodes = options.auth?.closeCodes ?? DEFAULT_AUTH_CLOSE_CODES;
+        this.instruments = ([] as Instrumentation[]).concat(options.instrumentation ?? []);
+
+        if (this.options.cache) {
+            const cacheOptions = this.options.cache === true ? {} : this.options.cache;
+            this.cache = new ResponseCache(cacheOptions);
+
+            if (cacheOptions.watchAbiChanges) {
+                // Registered without connecting; it goes out with the first connect, whether automatic or not.
+                this.addTraceSubscription<{ account: string }>('eosio::setabi', {}, (trace) => {
+                    this.cache?.invalidateAccount(trace.trace.data.account).catch(e => this.emit('error', e));
+                }, false);
+            }
+        }
 
         if (this.options.autoConnect) {
-            this.connect();
+            this.ensureConnected();
         }
     }
 
+    public get state(): ConnectionState {
+        return this.connectionState;
+    }
+
+    private get isConnected(): boolean {
+        return this.connectionState === 'open';
+    }
+
+    private get isConnecting(): boolean {
+        return this.connectionState === 'connecting';
+    }
+
+    // While 'reconnecting' the backoff timer owns the next attempt; connecting early would defeat it.
+    private get canStartConnect(): boolean {
+        return this.connectionState === 'idle' || this.connectionState === 'closed';
+    }
+
     public async connect(): Promise<void> {
-        if (this.isConnected || this.isConnecting) return;
+        if (this.isConnected) return;
+        if (this.isConnecting && this.connectPromise) return this.connectPromise;
+
+        this.closed = false;
+        this.clearReconnectTimer();
+        this.setState('connecting');
+
+        const endpoint = this.endpoint;
+        this.emit('connecting', endpoint);
+
+        // The previous socket is gone; clearing it lets close() return while a token is being fetched.
+        this.ws = null;
+        const promise: Promise<void> = this.handshakeOptions(endpoint).then(
+            handshake => {
+                if (this.connectPromise !== promise || this.closed) {
+                    throw new WaxConnectionClosedError("Client closed", { endpoint });
+                }
+                return this.openSocket(endpoint, handshake);
+            },
+            (error: WaxAuthError) => {
+                if (this.connectPromise === promise && !this.closed) this.failAuth(error);
+                throw error;
+            }
+        );
+        this.connectPromise = promise;
 
-        this.isConnecting = true;
+        return this.connectPromise;
+    }
 
+    private openSocket(endpoint: string, handshake: Handshake): Promise<void> {
         return new Promise((resolve, reject) => {
             try {
-                this.ws = new WebSocketClass(this.endpoint);
+                const ws = this.transport.open(handshake.url, handshake.options);
+                this.ws = ws;
                 this.ws.binaryType = 'arraybuffer';
+                let authError: WaxAuthError | null = null;
 
-                this.ws.onopen = () => {
-                    this.isConnected = true;
-                    this.isConnecting = false;
-                    this.retryCount = 0;
-
-                    this.resubscribeAll();
-                    this.processQueue();
+                this.connectTimer = setTimeout(() => {
+                    this.connectTimer = null;
+                    if (this.ws === ws && !this.isConnected) this.dropSocket(ws);
+                }, this.options.connectTimeout);
 
-                    this.startHeartbeat();
-                    resolve();
+                this.ws.onopen = () => {
+                    if (this.ws !== ws) return;
+                    this.authenticate(ws, endpoint, handshake.token).then(() => this.negotiate(ws)).then(() => {
+                        if (this.ws !== ws) return;
+                        this.clearConnectTimer();
+                        this.setState('open');
+                        this.retryCount = 0;
+                        this.pool.select(endpoint);
+                        this.emit('open', endpoint);
+
+                        this.resubscribeAll();
+                        this.resendPending();
+                        this.processQueue();
+
+                        this.startHeartbeat();
+                        resolve();
+                    }, (error: Error) => {
+                        if (this.ws !== ws) return;
+                        if (error instanceof WaxAuthError) authError = error;
+                        this.dropSocket(ws);
+                        reject(error);
+                    });
                 };
 
-                this.ws.onmessage = (event: any) => this.handleMessage(event);
+                this.ws.onmessage = (event: any) => {
+                    if (this.ws === ws) this.handleMessage(event);
+                };
 
-                this.ws.onclose = () => {
-                    this.isConnected = false;
-                    this.isConnecting = false;
+                this.ws.onclose = (event: any) => {
+                    if (this.ws !== ws) return;
+                    this.clearConnectTimer();
+                    this.setState('closed');
                     this.stopHeartbeat();
+                    this.emit('close', event?.code ?? 1006, event?.reason?.toString() ?? '');
+                    if (this.closed) return;
+
+                    if (!authError && this.authCloseCodes.includes(event?.code)) {
+                        authError = new WaxAuthError(
+                            event?.reason?.toString() || `Authentication rejected by ${endpoint}`,
+                            { endpoint, code: event.code }
+                        );
+                    }
+                    if (authError) {
+                        this.failAuth(authError);
+                        return;
+                    }
+
+                    this.pool.recordFailure(endpoint);
+                    this.failover();
                     if (this.options.autoReconnect) this.attemptReconnect();
+                    else this.rejectAll("Connection closed");
                 };
 
                 this.ws.onerror = (err: any) => {
-                    this.isConnecting = false;
-                    if (!this.isConnected) reject(err);
+                    if (this.ws !== ws) return;
+                    const error = err instanceof Error ? err : new Error(err?.message || `WebSocket error on ${endpoint}`);
+                    // 'ws' reports a refused upgrade as "Unexpected server response: 401".
+                    const status = /Unexpected server response: (401|403)\b/.exec(error.message);
+                    if (status) {
+                        authError = new WaxAuthError(`Authentication rejected by ${endpoint} (${status[1]})`, {
+                            endpoint,
+                            code: Number(status[1]),
+                        });
+                    }
+                    this.emit('error', error);
+                    if (!this.isConnected) reject(error);
                 };
             } catch (e) {
-                this.isConnecting = false;
+                this.clearConnectTimer();
+                this.setState('closed');
+                this.emit('error', e as Error);
                 reject(e);
             }
         });
     }
 
+    // Called before every connect, so a token provider can hand out a fresh token on each reconnect.
+    private async handshakeOptions(endpoint: string): Promise<Handshake> {
+        const options: TransportOpenOptions = { protocols: this.protocols, headers: this.headers };
+        if (!this.auth) return { url: endpoint, options, token: null };
+
+        let token: string;
+        try {
+            token = typeof this.auth.token === 'function' ? await this.auth.token(endpoint) : this.auth.token;
+        } catch (e) {
+            throw new WaxAuthError(`Token provider failed: ${(e as Error)?.message ?? e}`, { endpoint });
+        }
+
+        const via = this.auth.via ?? 'header';
+        if (via === 'header') {
+            options.headers = { ...options.headers, Authorization: `Bearer ${token}` };
+        } else if (via === 'query') {
+            const url = new URL(endpoint);
+            url.searchParams.set(this.auth.queryParam ?? 'token', token);
+            return { url: url.toString(), options, token };
+        }
+        return { url: endpoint, options, token };
+    }
+
+    // Retrying with the same credentials would fail the same way, so the client stops here.
+    // connect(), or a request that needs the connection, starts over with a fresh token.
+    private failAuth(error: WaxAuthError) {
+        this.clearConnectTimer();
+        this.clearReconnectTimer();
+        this.stopHeartbeat();
+        this.setState('closed');
+        this.retryCount = 0;
+        this.emit('auth_failed', error);
+        this.rejectAll(error.message, WaxAuthError);
+    }
+
+    public async close(code: number = 1000, reason: string = 'Client closed'): Promise<void> {
+        this.closed = true;
+        this.clearReconnectTimer();
+        this.clearConnectTimer();
+        this.stopHeartbeat();
+
+        this.unsubscribeAll();
+        this.rejectAll("Client closed");
+
+        const ws = this.ws;
+        if (!ws || (!this.isConnected && !this.isConnecting)) {
+            this.setState('closed');
+            return;
+        }
+
+        await new Promise<void>(resolve => {
+            this.once('close', () => resolve());
+            ws.close(code, reason);
+        });
+    }
+
+    public async dispose(): Promise<void> {
+        await this.close();
+        this.removeAllListeners();
+    }
+
+    private rejectAll(
+        message: string,
+        ErrorClass: new (message: string, context: WaxRpcErrorContext) => WaxRpcError = WaxConnectionClosedError
+    ) {
+        const pending = Array.from(this.pending.values());
+        this.pending.clear();
+        this.clearSweep();
+        this.clearOutbox();
+        pending.forEach(request => {
+            request.reject(new ErrorClass(message, this.errorContext(request.payload, request.endpoint)));
+        });
+
+        const queued = this.queue.splice(0);
+        queued.forEach(item => item.reject(new ErrorClass(message, this.errorContext(item.payload))));
+
+        this.retryWaits.forEach(wait => {
+            clearTimeout(wait.timer);
+            wait.reject(new ErrorClass(message, { endpoint: this.endpoint }));
+        });
+        this.retryWaits.clear();
+    }
+
+    private ensureConnected() {
+        // Failures are reported through the 'error' and 'close' events.
+        this.connect().catch(() => {});
+    }
+
+    private setState(state: ConnectionState) {
+        this.connectionState = state;
+    }
+
+    public getEndpointHealth(): EndpointHealth[] {
+        return this.pool.snapshot();
+    }
+
+    // Point-in-time gauges, e.g. for polling into a metrics system next to a MetricsCollector.
+    public get stats(): ClientStats {
+        return {
+            state: this.connectionState,
+            endpoint: this.endpoint,
+            inFlight: this.pending.size,
+            queued: this.queue.length,
+            reconnectAttempts: this.retryCount,
+            subscriptions: this.subscriptions.size,
+        };
+    }
+
+    private failover() {
+        const next = this.pool.next(this.endpoint);
+        if (next === this.endpoint) return;
+
+        const previous = this.endpoint;
+        this.endpoint = next;
+        this.pool.select(next);
+        this.emit('endpoint_changed', next, previous);
+    }
+
+    private dropSocket(ws: any) {
+        // `ws` waits for the closing handshake on close(); terminate() drops an unresponsive node at once.
+        if (typeof ws.terminate === 'function') ws.terminate();
+        else ws.close();
+    }
+
+    private clearConnectTimer() {
+        if (this.connectTimer) {
+            clearTimeout(this.connectTimer);
+            this.connectTimer = null;
+        }
+    }
+
     private attemptReconnect() {
-        if (this.retryCount < this.options.maxRetries) {
-            this.retryCount++;
-            console.log(`Reconnecting (${this.retryCount}/${this.options.maxRetries}) in ${this.options.reconnectInterval}ms...`);
-            setTimeout(() => this.connect(), this.options.reconnectInterval);
+        const policy = this.options.retryPolicy;
+        const delay = policy.reconnectDelay(this.retryCount + 1);
+
+        if (delay === null) {
+            this.emit('reconnect_failed');
+            this.rejectAll("Reconnect failed");
+            return;
+        }
+
+        this.retryCount++;
+        this.setState('reconnecting');
+        this.emit('reconnecting', this.retryCount, policy.maxRetries, delay);
+        this.instrument('onReconnect', { attempt: this.retryCount, maxRetries: policy.maxRetries, delay, endpoint: this.endpoint });
+        this.reconnectTimer = setTimeout(() => {
+            this.reconnectTimer = null;
+            this.ensureConnected();
+        }, delay);
+    }
+
+    private clearReconnectTimer() {
+        if (this.reconnectTimer) {
+            clearTimeout(this.reconnectTimer);
+            this.reconnectTimer = null;
         }
     }
 
@@ -201,7 +721,7 @@ export class WebsocketJsonRpc implements AuthorityProvider, AbiProvider {
         this.stopHeartbeat();
         this.heartbeatTimer = setInterval(() => {
             if (this.isConnected && this.ws) {
-                this.ws.send(JSON.stringify({ type: 'ping' }));
+                this.write({ type: 'ping' });
             }
         }, this.HEARTBEAT_INTERVAL);
     }
@@ -213,36 +733,294 @@ export class WebsocketJsonRpc implements AuthorityProvider, AbiProvider {
         }
     }
 
+    private canSend(): boolean {
+        return this.isConnected && this.pending.size < this.options.maxInFlight;
+    }
+
+    // Requests held back by `maxInFlight` wait in the same queue as requests made while offline.
     private processQueue() {
-        while (this.queue.length > 0 && this.isConnected) {
-            const item = this.queue.shift();
-            if (item) this.sendToWs(item.payload, item.resolve, item.reject);
+        if (this.queue.length === 0) return;
+
+        this.withBatch(() => {
+            while (this.queue.length > 0 && this.canSend()) {
+                const item = this.queue.shift();
+                if (item) this.sendToWs(item);
+            }
+        });
+    }
+
+    // The deadline set when the request was queued still applies, so time spent waiting counts.
+    private sendToWs({ payload, resolve, reject, timeout, deadline, expiresAt }: QueuedRequest) {
+        const request: PendingRequest = {
+            payload,
+            resolve,
+            reject,
+            timeout,
+            deadline,
+            expiresAt,
+            socket: this.ws,
+            endpoint: this.endpoint,
+            sentAt: Date.now(),
+        };
+        this.scheduleSweep(deadline);
+
+        this.pending.set(payload.request_id, request);
+
+        if (this.batchDepth > 0 || this.options.autoBatch) {
+            this.outbox.push(payload);
+            if (this.batchDepth === 0) this.scheduleFlush();
+        } else {
+            this.write(payload);
+        }
+    }
+
+    private withBatch<R>(fn: () => R): R {
+        this.batchDepth++;
+        try {
+            return fn();
+        } finally {
+            this.batchDepth--;
+            if (this.batchDepth === 0) this.flushOutbox();
         }
     }
 
-    private sendToWs(payload: RpcRequest, resolve: Function, reject: Function) {
-        const requestId = payload.request_id;
-        const timeout = setTimeout(() => {
-            if (this.pending.has(requestId)) {
+    private scheduleFlush() {
+        if (this.flushTimer) return;
+        this.flushTimer = setTimeout(() => {
+            this.flushTimer = null;
+            this.flushOutbox();
+        }, 0);
+    }
+
+    private flushOutbox() {
+        if (this.flushTimer) {
+            clearTimeout(this.flushTimer);
+            this.flushTimer = null;
+        }
+
+        // Requests whose socket went away before the flush are replayed by resendPending() instead.
+        const payloads = this.outbox.splice(0).filter(payload => {
+            return this.pending.get(payload.request_id)?.socket === this.ws;
+        });
+        if (payloads.length === 0 || !this.isConnected) return;
+
+        if (!this.options.batchRequests) {
+            payloads.forEach(payload => this.write(payload));
+            return;
+        }
+
+        for (let i = 0; i < payloads.length; i += this.options.maxBatchSize) {
+            const frame = payloads.slice(i, i + this.options.maxBatchSize);
+            this.write(frame.length === 1 ? frame[0] : frame);
+        }
+    }
+
+    private clearOutbox() {
+        if (this.flushTimer) {
+            clearTimeout(this.flushTimer);
+            this.flushTimer = null;
+        }
+        this.outbox = [];
+    }
+
+    private restartRequestTimeout(request: PendingRequest) {
+        request.deadline = Math.min(Date.now() + request.timeout, request.expiresAt);
+        this.scheduleSweep(request.deadline);
+    }
+
+    // A single timer armed for the earliest deadline replaces one setTimeout per request.
+    private scheduleSweep(deadline: number) {
+        if (this.sweepTimer && deadline >= this.sweepAt) return;
+
+        this.clearSweep();
+        this.sweepAt = deadline;
+        this.sweepTimer = setTimeout(() => {
+            this.sweepTimer = null;
+            this.sweepAt = Infinity;
+            this.sweepPending();
+        }, Math.max(0, deadline - Date.now()));
+    }
+
+    private clearSweep() {
+        if (this.sweepTimer) {
+            clearTimeout(this.sweepTimer);
+            this.sweepTimer = null;
+        }
+        this.sweepAt = Infinity;
+    }
+
+    private sweepPending() {
+        const now = Date.now();
+        let next = Infinity;
+
+        Array.from(this.pending.values()).forEach(request => {
+            if (request.deadline <= now) this.expireRequest(request);
+            else next = Math.min(next, request.deadline);
+        });
+
+        this.queue = this.queue.filter(item => {
+            if (item.deadline > now) {
+                next = Math.min(next, item.deadline);
+                return true;
+            }
+            item.reject(new WaxRpcTimeoutError(item.timeout, this.errorContext(item.payload)));
+            return false;
+        });
+
+        if (next !== Infinity) this.scheduleSweep(next);
+    }
+
+    private expireRequest(request: PendingRequest) {
+        const requestId = request.payload.request_id;
+        if (this.pending.get(requestId) !== request) return;
+
+        this.releasePending(requestId);
+        request.reject(new WaxRpcTimeoutError(request.timeout, this.errorContext(request.payload, request.endpoint)));
+
+        if (this.isConnected && request.socket === this.ws) {
+            this.pool.recordFailure(this.endpoint);
+            if (this.pool.shouldFailover(this.endpoint, this.options.failoverThreshold)) {
+                this.dropSocket(this.ws);
+            }
+        }
+    }
+
+    private releasePending(requestId: string) {
+        this.pending.delete(requestId);
+        if (this.pending.size === 0 && this.queue.length === 0) this.clearSweep();
+        this.processQueue();
+    }
+
+    // Requests still waiting on a previous socket are replayed on the new one after a failover.
+    // Pushes are not replayed: the previous node may already have accepted them.
+    private resendPending() {
+        this.pending.forEach((request, requestId) => {
+            if (request.socket === this.ws) return;
+
+            if (!isIdempotentMethod(request.payload.type)) {
                 this.pending.delete(requestId);
-                reject(new Error("Request Timeout"));
+                request.reject(new WaxConnectionClosedError("Connection lost before response", this.errorContext(request.payload, request.endpoint)));
+                return;
             }
-        }, this.options.requestTimeOut);
 
-        this.pending.set(requestId, { resolve, reject, timeout });
-        this.ws.send(JSON.stringify(payload));
+            request.socket = this.ws;
+            request.endpoint = this.endpoint;
+            request.sentAt = Date.now();
+            this.restartRequestTimeout(request);
+            this.write(request.payload);
+        });
+    }
+
+    private errorContext(payload: RpcRequest, endpoint: string = this.endpoint): WaxRpcErrorContext {
+        return {
+            requestId: payload.request_id,
+            method: payload.type,
+            params: payload.params,
+            endpoint,
+        };
+    }
+
+    public get encoding(): string {
+        return this.codec.name;
+    }
+
+    // The negotiated WebSocket extensions, e.g. 'permessage-deflate', where the socket implementation reports them.
+    public get extensions(): string {
+        return this.ws?.extensions ?? '';
+    }
+
+    // The subprotocol the server picked from the `protocols` option.
+    public get protocol(): string {
+        return this.ws?.protocol ?? '';
+    }
+
+    // Sent in JSON before the connection counts as open; resolves with the reply, or undefined on timeout.
+    private handshakeRequest(ws: any, type: string, params: any): Promise<any> {
+        const requestId = uuid();
+        return new Promise(resolve => {
+            const timer = setTimeout(() => finish(), this.options.requestTimeOut);
+            const finish = (reply?: any) => {
+                clearTimeout(timer);
+                if (this.handshakeReply?.requestId === requestId) this.handshakeReply = null;
+                resolve(reply);
+            };
+
+            this.handshakeReply = { requestId, finish };
+            try {
+                ws.send(JsonCodec.encode({ request_id: requestId, type, params }));
+            } catch (e) {
+                finish();
+            }
+        });
+    }
+
+    private async authenticate(ws: any, endpoint: string, token: string | null): Promise<void> {
+        if (token === null || this.auth?.via !== 'message') return;
+
+        const reply = await this.handshakeRequest(ws, 'auth', { token });
+        if (reply === undefined) throw new WaxRpcTimeoutError(this.options.requestTimeOut, { method: 'auth', endpoint });
+        if (reply.type !== 'error') return;
+
+        const error = WaxRpcError.fromResponse(reply, { method: 'auth', endpoint });
+        throw new WaxAuthError(error.message, {
+            method: 'auth',
+            endpoint,
+            requestId: error.requestId,
+            code: reply.error?.code ?? error.code,
+            json: reply,
+        });
+    }
+
+    // Anything but an accepted encoding keeps JSON.
+    private async negotiate(ws: any): Promise<void> {
+        this.codec = JsonCodec;
+        if (this.codecs.length === 1 && this.codecs[0] === JsonCodec) return;
+
+        const reply = await this.handshakeRequest(ws, 'negotiate', { encodings: this.codecs.map(codec => codec.name) });
+        const encoding = reply?.type === 'error' ? undefined : reply?.result?.encoding;
+        if (this.ws === ws) this.codec = this.codecs.find(codec => codec.name === encoding) ?? JsonCodec;
+    }
+
+    private write(message: any) {
+        this.ws.send(this.codec.encode(message));
+    }
+
+    // Text frames are always JSON; binary frames use the negotiated encoding.
+    private decodeFrame(data: any): any {
+        if (typeof data === 'string') {
+            return data.startsWith('{') || data.startsWith('[') ? JsonCodec.decode(data) : undefined;
+        }
+
+        const bytes = toBytes(data);
+        if (!bytes) return undefined;
+        return this.codec.decode(bytes);
     }
 
     private handleMessage(event: any) {
         try {
-            const rawData = event.data.toString();
+            const parsed: any = this.decodeFrame(event.data);
+            if (parsed === undefined || parsed === null) return;
 
-            if (!rawData.startsWith('{') && !rawData.startsWith('[')) return;
+            // Batched requests may be answered with an array of responses in one frame;
+            // requests released from the queue while handling it go out together as well.
+            const messages: any[] = Array.isArray(parsed) ? parsed : [parsed];
+            this.withBatch(() => messages.forEach(msg => this.handleRpcMessage(msg)));
+        } catch (e) {
+            if (!this.emit('error', e as Error)) console.error("Parse Error:", e);
+        }
+    }
 
-            const msg: any = JSON.parse(rawData);
+    private handleRpcMessage(msg: any) {
+        try {
+            this.emit('message', msg);
 
             if (msg.type === 'pong') return;
 
+            if (this.handshakeReply && msg.request_id === this.handshakeReply.requestId) {
+                this.handshakeReply.finish(msg);
+                return;
+            }
+
             if (msg.type === 'table_delta') {
                 this.dispatchSubscription(msg);
                 return;
@@ -253,42 +1031,184 @@ export class WebsocketJsonRpc implements AuthorityProvider, AbiProvider {
                 return;
             }
 
+            if (msg.type === 'block') {
+                this.dispatchSubscription(msg);
+                return;
+            }
+
+            if (msg.request_id && this.subscriptionRequests.has(msg.request_id)) {
+                this.handleSubscriptionReply(this.subscriptionRequests.get(msg.request_id)!, msg);
+                return;
+            }
+
             if (msg.request_id && this.pending.has(msg.request_id)) {
                 const request = this.pending.get(msg.request_id);
                 if (request) {
-                    clearTimeout(request.timeout);
-                    this.pending.delete(msg.request_id);
-                    if (msg.type === 'error') request.reject(new Error(msg.message));
+                    this.releasePending(msg.request_id);
+                    this.pool.recordSuccess(this.endpoint, Date.now() - request.sentAt);
+                    if (msg.type === 'error') request.reject(WaxRpcError.fromResponse(msg, this.errorContext(request.payload, request.endpoint)));
                     else request.resolve(msg.result);
                 }
             }
         } catch (e) {
-            console.error("Parse Error:", e);
+            if (!this.emit('error', e as Error)) console.error("Parse Error:", e);
         }
     }
 
     private dispatchSubscription(msg: any) {
+        if (msg.type === 'block') {
+            const block = this.trackChain(msg);
+
+            this.subscriptions.forEach(subscription => {
+                if (subscription.type !== 'block' || subscription.params.mode !== block.mode) return;
+                this.trackBlock(subscription, block.block_num);
+                this.recordDelivery(subscription, block.block_num);
+
+                subscription.listeners.forEach(listener => this.deliver(listener, block));
+            });
+            return;
+        }
+
+        // Deliveries are marked final against the last irreversible block seen on a block stream.
+        if (msg.irreversible === undefined && typeof msg.block_num === 'number' && this.lastIrreversible !== null) {
+            msg.irreversible = msg.block_num <= this.lastIrreversible;
+        }
+
         if (msg.type === 'table_delta') {
             const delta = msg as TableDelta;
-            const specificKey = `table:${delta.code}:${delta.table}:${delta.scope}`;
-            const wildcardKey = `table:${delta.code}:${delta.table}:*`;
 
-            const callbacks = [
-                ...(this.tableSubs.get(specificKey) || []),
-                ...(this.tableSubs.get(wildcardKey) || [])
-            ];
+            this.subscriptions.forEach(subscription => {
+                if (subscription.type !== 'table' || !matchesTableTarget(subscription.params, delta)) return;
+                this.trackBlock(subscription, delta.block_num);
+                this.recordDelivery(subscription, delta.block_num);
 
-            callbacks.forEach(cb => cb(delta));
+                subscription.listeners.forEach(listener => this.deliver(listener, delta));
+            });
         } 
         else if (msg.type === 'action_trace') {
             const trace = msg as ActionTrace;
-            const key = `trace:${trace.trace.account}:${trace.trace.name}`;
-            
-            const callbacks = this.traceSubs.get(key);
-            if (callbacks) {
-                callbacks.forEach(cb => cb(trace));
+
+            this.subscriptions.forEach(subscription => {
+                if (subscription.type !== 'trace' || !matchesTraceTarget(subscription.params, trace)) return;
+                this.trackBlock(subscription, trace.block_num);
+                this.recordDelivery(subscription, trace.block_num);
+
+                subscription.listeners.forEach(listener => this.deliver(listener, trace));
+            });
+        }
+    }
+
+    private recordDelivery(subscription: ServerSubscription, blockNum: number | undefined) {
+        if (this.instruments.length === 0) return;
+        this.instrument('onSubscriptionMessage', {
+            type: subscription.type,
+            key: subscription.key,
+            blockNum: typeof blockNum === 'number' ? blockNum : null,
+            receivedAt: Date.now(),
+        });
+    }
+
+    // One throwing callback or filter must not stop delivery to the other subscribers.
+    private deliver(listener: SubscriptionListener, data: any) {
+        this.runListener(() => {
+            if (!listener.filter || listener.filter(data)) listener.callback(data);
+        });
+    }
+
+    private runListener(fn: () => void) {
+        try {
+            fn();
+        } catch (e) {
+            if (!this.emit('error', e as Error)) console.error("Subscription Callback Error:", e);
+        }
+    }
+
+    public get lastIrreversibleBlock(): number | null {
+        return this.lastIrreversible;
+    }
+
+    private trackChain(msg: any): BlockHeader {
+        const block: BlockHeader = { ...msg, mode: msg.mode ?? 'head' };
+
+        if (typeof block.last_irreversible_block_num === 'number') {
+            this.lastIrreversible = Math.max(this.lastIrreversible ?? 0, block.last_irreversible_block_num);
+        }
+        if (block.mode === 'irreversible') {
+            this.lastIrreversible = Math.max(this.lastIrreversible ?? 0, block.block_num);
+        }
+        block.irreversible = this.lastIrreversible !== null && block.block_num <= this.lastIrreversible;
+
+        if (block.mode === 'head') this.trackHead(block);
+        return block;
+    }
+
+    // A head block at or below the current head with a different id than the one seen at that height
+    // means the node switched forks: every block from there up to the old head was undone and will be replaced.
+    // The same id again is a replay, or a node one block behind after a failover, and is ignored.
+    // A higher block whose `previous` is not the block seen below it also comes from another fork.
+    private trackHead(block: BlockHeader) {
+        const previousHead = this.headBlock;
+
+        if (previousHead !== null && block.block_num <= previousHead) {
+            const knownId = this.recentBlocks.get(block.block_num);
+            if (knownId === undefined || knownId === block.block_id) return;
+
+            const undoneBlocks = Array.from(this.recentBlocks.keys())
+                .filter(blockNum => blockNum >= block.block_num)
+                .sort((a, b) => a - b);
+            this.undoBlocks(undoneBlocks, previousHead, block);
+        } else if (previousHead !== null && block.previous) {
+            const parentId = this.recentBlocks.get(block.block_num - 1);
+            if (parentId !== undefined && parentId !== block.previous) {
+                this.undoLongerFork(block, previousHead).catch(() => {});
             }
         }
+
+        this.headBlock = block.block_num;
+        this.recentBlocks.set(block.block_num, block.block_id);
+        this.recentBlocks.forEach((_, blockNum) => {
+            if (this.lastIrreversible !== null && blockNum <= this.lastIrreversible) this.recentBlocks.delete(blockNum);
+        });
+    }
+
+    // The new chain's blocks below the new head were never streamed, so their parents are fetched
+    // until one matches a block seen here; that common ancestor is where the fork began.
+    private async undoLongerFork(block: BlockHeader, previousHead: number) {
+        const undoneBlocks: number[] = [];
+        let blockNum = block.block_num - 1;
+        let blockId = block.previous;
+
+        while (this.recentBlocks.has(blockNum) && this.recentBlocks.get(blockNum) !== blockId) {
+            undoneBlocks.unshift(blockNum);
+            try {
+                blockId = (await this.get_block(blockId)).previous;
+            } catch (e) {
+                // Report the blocks known to be replaced rather than none.
+                break;
+            }
+            blockNum--;
+        }
+
+        this.undoBlocks(undoneBlocks, previousHead, block);
+    }
+
+    private undoBlocks(undoneBlocks: number[], previousHead: number, block: BlockHeader) {
+        const forkBlock = undoneBlocks[0];
+        undoneBlocks.forEach(blockNum => this.recentBlocks.delete(blockNum));
+
+        this.subscriptions.forEach(subscription => {
+            if (subscription.lastBlock !== null && subscription.lastBlock >= forkBlock) {
+                subscription.lastBlock = forkBlock - 1;
+            }
+        });
+        this.emit('fork', { undoneBlocks, previousHead, newHead: block.block_num, newHeadId: block.block_id });
+    }
+
+    private trackBlock(subscription: ServerSubscription, blockNum: number | undefined) {
+        if (typeof blockNum !== 'number') return;
+        if (subscription.lastBlock === null || blockNum > subscription.lastBlock) {
+            subscription.lastBlock = blockNum;
+        }
     }
 
     public subscribeTable<T = any>(
@@ -296,129 +1216,350 @@ export class WebsocketJsonRpc implements AuthorityProvider, AbiProvider {
         scope: string, 
         table: string, 
         callback: (data: TableDelta<T>) => void
-    ): () => void {
+    ): Subscription;
+    public subscribeTable<T = any>(
+        code: string,
+        scope: string,
+        table: string,
+        filter: TableFilter,
+        callback: (data: TableDelta<T>) => void
+    ): Subscription;
+    public subscribeTable<T = any>(
+        code: string,
+        scope: string,
+        table: string,
+        filterOrCallback: TableFilter | ((data: TableDelta<T>) => void),
+        maybeCallback?: (data: TableDelta<T>) => void
+    ): Subscription {
+        const filter = typeof filterOrCallback === 'function' ? {} : filterOrCallback;
+        const callback = typeof filterOrCallback === 'function' ? filterOrCallback : maybeCallback;
+        if (!callback) throw new Error("A callback is required");
+
+        const serverFilter = tableServerParams(filter);
+        const filterKey = Object.keys(serverFilter).length > 0 ? `:${JSON.stringify(serverFilter)}` : '';
         const scopeKey = scope || "*";
-        const key = `table:${code}:${table}:${scopeKey}`;
-
-        if (!this.tableSubs.has(key)) {
-            this.tableSubs.set(key, []);
-            
-            const payload = {
-                request_id: this.id,
-                type: 'subscribe_table',
-                params: { code, table, scope }
-            };
-            
-            if (this.isConnected) {
-                this.ws.send(JSON.stringify(payload));
-            } 
-            if (!this.isConnected && !this.isConnecting) {
-                this.connect();
-            }
-        }
-        
-        this.tableSubs.get(key)?.push(callback);
-
-        return () => {
-            const callbacks = this.tableSubs.get(key);
-            if (callbacks) {
-                const index = callbacks.indexOf(callback);
-                if (index !== -1) {
-                    callbacks.splice(index, 1);
-                }
+        const key = `table:${code}:${table}:${scopeKey}${filterKey}`;
 
-                if (callbacks.length === 0) {
-                    this.tableSubs.delete(key);
-                    if (this.isConnected) {
-                        const payload = {
-                            request_id: this.id,
-                            type: 'unsubscribe_table',
-                            params: { code, table, scope }
-                        };
-                        this.ws.send(JSON.stringify(payload));
-                    }
-                }
-            }
-        };
+        return this.addSubscription(key, 'table', { code, table, scope: scope || null, ...serverFilter }, callback, compileTableFilter(filter));
     }
 
     public subscribeTrace<T = any>(
         codeAction: string,
         callback: (data: ActionTrace<T>) => void
-    ): () => void {
-        const [code, action] = codeAction.split('::');
-        if (!code || !action) throw new Error("Invalid format. Use 'contract::action'");
-
-        const key = `trace:${code}:${action}`;
-
-        if (!this.traceSubs.has(key)) {
-            this.traceSubs.set(key, []);
-            
-            const payload = {
-                request_id: this.id,
-                type: 'subscribe_trace',
-                params: { code, action }
+    ): Subscription;
+    public subscribeTrace<T = any>(
+        codeAction: string,
+        filter: TraceFilter<T>,
+        callback: (data: ActionTrace<T>) => void
+    ): Subscription;
+    public subscribeTrace<T = any>(
+        codeAction: string,
+        filterOrCallback: TraceFilter<T> | ((data: ActionTrace<T>) => void),
+        maybeCallback?: (data: ActionTrace<T>) => void
+    ): Subscription {
+        const filter = typeof filterOrCallback === 'function' ? {} : filterOrCallback;
+        const callback = typeof filterOrCallback === 'function' ? filterOrCallback : maybeCallback;
+        if (!callback) throw new Error("A callback is required");
+
+        return this.addTraceSubscription(codeAction, filter, callback);
+    }
+
+    private addTraceSubscription<T>(
+        codeAction: string,
+        filter: TraceFilter<T>,
+        callback: (data: ActionTrace<T>) => void,
+        connect: boolean = true
+    ): Subscription {
+        const { code, action } = parseTraceTarget(codeAction);
+
+        // Subscriptions with the same server-side filter share one server subscription.
+        const serverFilter = traceServerParams(filter);
+        const filterKey = Object.keys(serverFilter).length > 0 ? `:${JSON.stringify(serverFilter)}` : '';
+        const key = `trace:${code}:${action}${filterKey}`;
+
+        return this.addSubscription(key, 'trace', { code, action, ...serverFilter }, callback, compileTraceFilter(filter), connect);
+    }
+
+    public subscribeBlocks(callback: (block: BlockHeader) => void): Subscription;
+    public subscribeBlocks(options: BlockStreamOptions, callback: (block: BlockHeader) => void): Subscription;
+    public subscribeBlocks(
+        optionsOrCallback: BlockStreamOptions | ((block: BlockHeader) => void),
+        maybeCallback?: (block: BlockHeader) => void
+    ): Subscription {
+        const options = typeof optionsOrCallback === 'function' ? {} : optionsOrCallback;
+        const callback = typeof optionsOrCallback === 'function' ? optionsOrCallback : maybeCallback;
+        if (!callback) throw new Error("A callback is required");
+
+        const mode = options.mode ?? 'head';
+        return this.addSubscription(`block:${mode}`, 'block', { mode }, callback);
+    }
+
+    public blocks(options: BlockStreamOptions = {}, streamOptions: StreamOptions = {}): SubscriptionStream<BlockHeader> {
+        return new SubscriptionStream(push => this.subscribeBlocks(options, push), streamOptions);
+    }
+
+    public traces<T = any>(
+        codeAction: string,
+        filter: TraceFilter<T> = {},
+        options: StreamOptions = {}
+    ): SubscriptionStream<ActionTrace<T>> {
+        return new SubscriptionStream(push => this.subscribeTrace<T>(codeAction, filter, push), options);
+    }
+
+    public tableDeltas<T = any>(
+        code: string,
+        scope: string,
+        table: string,
+        filter: TableFilter = {},
+        options: StreamOptions = {}
+    ): SubscriptionStream<TableDelta<T>> {
+        return new SubscriptionStream(push => this.subscribeTable<T>(code, scope, table, filter, push), options);
+    }
+
+    private addSubscription(
+        key: string,
+        type: SubscriptionType,
+        params: any,
+        callback: (data: any) => void,
+        filter?: (data: any) => boolean,
+        connect: boolean = true
+    ): Subscription {
+        let subscription = this.subscriptions.get(key);
+
+        if (!subscription) {
+            let resolveReady: () => void = () => {};
+            let rejectReady: (error: Error) => void = () => {};
+            const ready = new Promise<void>((resolve, reject) => {
+                resolveReady = resolve;
+                rejectReady = reject;
+            });
+            // Callers that never await `ready` must not trigger an unhandled rejection.
+            ready.catch(() => {});
+
+            subscription = {
+                key,
+                type,
+                params,
+                requestId: '',
+                subscribed: false,
+                timeout: null,
+                lastBlock: null,
+                resumeFrom: null,
+                listeners: [],
+                ready,
+                resolveReady,
+                rejectReady,
             };
+            this.subscriptions.set(key, subscription);
 
             if (this.isConnected) {
-                this.ws.send(JSON.stringify(payload));
+                this.sendSubscribe(subscription);
             }
-            if (!this.isConnected && !this.isConnecting) {
-                this.connect();
+            if (connect && this.canStartConnect) {
+                this.ensureConnected();
             }
         }
-        this.traceSubs.get(key)?.push(callback);
 
-        return () => {
-            const callbacks = this.traceSubs.get(key);
-            if (callbacks) {
-                const index = callbacks.indexOf(callback);
-                if (index !== -1) {
-                    callbacks.splice(index, 1);
-                }
+        const listener: SubscriptionListener = {
+            callback,
+            filter,
+            errorListeners: [],
+            resubscribedListeners: [],
+            gapListeners: [],
+        };
+        subscription.listeners.push(listener);
 
-                if (callbacks.length === 0) {
-                    this.traceSubs.delete(key);
-                    if (this.isConnected) {
-                        const payload = {
-                            request_id: this.id,
-                            type: 'unsubscribe_trace',
-                            params: { code, action }
-                        };
-                        this.ws.send(JSON.stringify(payload));
-                    }
-                }
-            }
+        return this.createSubscriptionHandle(subscription, listener);
+    }
+
+    private createSubscriptionHandle(subscription: ServerSubscription, listener: SubscriptionListener): Subscription {
+        const unsubscribe = () => this.removeSubscriptionListener(subscription, listener);
+
+        const handle = Object.assign(unsubscribe, {
+            ready: subscription.ready,
+            unsubscribe,
+            onError: (errorListener: (error: WaxRpcError) => void) => {
+                listener.errorListeners.push(errorListener);
+                return handle;
+            },
+            onResubscribed: (resubscribedListener: () => void) => {
+                listener.resubscribedListeners.push(resubscribedListener);
+                return handle;
+            },
+            onGap: (gapListener: (gap: SubscriptionGap) => void) => {
+                listener.gapListeners.push(gapListener);
+                return handle;
+            },
+        }) as Subscription;
+
+        Object.defineProperty(handle, 'lastBlock', { get: () => subscription.lastBlock });
+
+        return handle;
+    }
+
+    private async removeSubscriptionListener(subscription: ServerSubscription, listener: SubscriptionListener): Promise<void> {
+        const index = subscription.listeners.indexOf(listener);
+        if (index === -1) return;
+
+        subscription.listeners.splice(index, 1);
+        if (subscription.listeners.length > 0 || this.subscriptions.get(subscription.key) !== subscription) return;
+
+        this.subscriptions.delete(subscription.key);
+        this.clearSubscriptionRequest(subscription);
+        // No-op once acked; otherwise `ready` would never settle.
+        subscription.rejectReady(new WaxConnectionClosedError("Unsubscribed", { endpoint: this.endpoint }));
+
+        if (!this.isConnected) return;
+
+        try {
+            await this.dispatch({
+                request_id: uuid(),
+                type: `unsubscribe_${subscription.type}`,
+                params: subscription.params
+            });
+        } catch (e) {
+            // The subscription is already gone locally; only a server-side rejection is worth reporting.
+            if (e instanceof WaxRpcTimeoutError || e instanceof WaxConnectionClosedError) return;
+            throw e;
+        }
+    }
+
+    private sendSubscribe(subscription: ServerSubscription) {
+        this.clearSubscriptionRequest(subscription);
+
+        // Every (re)subscribe gets its own request id so the ack or error can be matched to it.
+        subscription.requestId = uuid();
+        this.subscriptionRequests.set(subscription.requestId, subscription);
+
+        // After a reconnect, ask the server to replay from the block after the last one we saw.
+        subscription.resumeFrom = subscription.subscribed && subscription.lastBlock !== null && this.options.resumeSubscriptions
+            ? subscription.lastBlock + 1
+            : null;
+
+        const payload: RpcRequest = {
+            request_id: subscription.requestId,
+            type: `subscribe_${subscription.type}`,
+            params: subscription.resumeFrom === null
+                ? subscription.params
+                : { ...subscription.params, start_block: subscription.resumeFrom }
         };
+
+        subscription.timeout = setTimeout(() => {
+            if (this.subscriptionRequests.get(payload.request_id) !== subscription) return;
+            this.subscriptionRequests.delete(payload.request_id);
+            this.failSubscription(subscription, new WaxRpcTimeoutError(this.options.requestTimeOut, this.errorContext(payload)));
+        }, this.options.requestTimeOut);
+
+        this.write(payload);
     }
 
-    private resubscribeAll() {
-        this.tableSubs.forEach((callbacks, key) => {
-            const [_, code, table, scope] = key.split(':');
-            
-            const payload = {
-                request_id: this.id, 
-                type: 'subscribe_table',
-                params: { code, table, scope: scope === "*" ? null : scope }
-            };
-            
-            this.ws.send(JSON.stringify(payload));
+    private handleSubscriptionReply(subscription: ServerSubscription, msg: any) {
+        const payload: RpcRequest = {
+            request_id: subscription.requestId,
+            type: `subscribe_${subscription.type}`,
+            params: subscription.params
+        };
+        this.clearSubscriptionRequest(subscription);
+
+        if (msg.type === 'error') {
+            if (this.subscriptions.get(subscription.key) === subscription) {
+                this.subscriptions.delete(subscription.key);
+            }
+            this.failSubscription(subscription, WaxRpcError.fromResponse(msg, this.errorContext(payload)));
+            return;
+        }
+
+        if (!subscription.subscribed) {
+            subscription.subscribed = true;
+            subscription.resolveReady();
+            return;
+        }
+
+        subscription.listeners.forEach(listener => {
+            listener.resubscribedListeners.forEach(resubscribed => this.runListener(resubscribed));
         });
 
-        this.traceSubs.forEach((callbacks, key) => {
-            const [_, code, action] = key.split(':');
+        if (subscription.resumeFrom !== null) {
+            this.checkResume(subscription, subscription.resumeFrom, msg.result);
+        }
+    }
 
-            const payload = {
-                request_id: this.id, 
-                type: 'subscribe_trace',
-                params: { code, action }
-            };
+    // The ack reports `start_block` when the server replays history; anything later than requested is a gap.
+    private async checkResume(subscription: ServerSubscription, requested: number, result: any) {
+        const startBlock = typeof result?.start_block === 'number' ? result.start_block : null;
+        if (startBlock !== null && startBlock <= requested) return;
 
-            this.ws.send(JSON.stringify(payload));
+        let toBlock: number | null = startBlock !== null ? startBlock - 1 : null;
+        if (toBlock === null) {
+            try {
+                toBlock = (await this.get_info()).head_block_num;
+            } catch (e) {
+                toBlock = null;
+            }
+        }
+
+        this.emitGap(subscription, { type: subscription.type, params: subscription.params, fromBlock: requested, toBlock });
+    }
+
+    private emitGap(subscription: ServerSubscription, gap: SubscriptionGap) {
+        subscription.listeners.forEach(listener => {
+            listener.gapListeners.forEach(gapListener => this.runListener(() => gapListener(gap)));
+        });
+        this.emit('gap', gap);
+    }
+
+    private failSubscription(subscription: ServerSubscription, error: WaxRpcError) {
+        subscription.rejectReady(error);
+
+        let handled = !subscription.subscribed;
+        subscription.listeners.forEach(listener => {
+            listener.errorListeners.forEach(errorListener => {
+                handled = true;
+                this.runListener(() => errorListener(error));
+            });
+        });
+
+        if (!handled) this.emit('error', error);
+    }
+
+    private clearSubscriptionRequest(subscription: ServerSubscription) {
+        clearTimeout(subscription.timeout);
+        subscription.timeout = null;
+        this.subscriptionRequests.delete(subscription.requestId);
+    }
+
+    private unsubscribeAll() {
+        const subscriptions = Array.from(this.subscriptions.values());
+
+        subscriptions.forEach(subscription => {
+            this.clearSubscriptionRequest(subscription);
+            subscription.rejectReady(new WaxConnectionClosedError("Client closed", { endpoint: this.endpoint }));
+
+            if (this.isConnected) {
+                this.write({
+                    request_id: uuid(),
+                    type: `unsubscribe_${subscription.type}`,
+                    params: subscription.params
+                });
+            }
+        });
+
+        this.subscriptions.clear();
+
+        // Runs after the map is cleared, so a stream unsubscribing from its error hook sends nothing.
+        subscriptions.forEach(subscription => {
+            const error = new WaxConnectionClosedError("Client closed", { endpoint: this.endpoint });
+            subscription.listeners.slice().forEach(listener => {
+                listener.errorListeners.forEach(errorListener => this.runListener(() => errorListener(error)));
+            });
         });
     }
 
-    private async call<T>(method: string, params: any = {}): Promise<T> {
+    private resubscribeAll() {
+        this.subscriptions.forEach(subscription => this.sendSubscribe(subscription));
+    }
+
+    public async call<T = any>(method: string, params: any = {}, options: CallOptions = {}): Promise<T> {
         const request_id = uuid();
 
         method = method.replace("/v1/chain/", "");
@@ -429,16 +1570,201 @@ export class WebsocketJsonRpc implements AuthorityProvider, AbiProvider {
             payload.params = params;
         }
 
+        return this.measure(payload, () => {
+            if (!this.cache || !this.cache.handles(method)) {
+                return this.request<T>(payload, options);
+            }
+
+            // The shared request runs without the caller's signal or deadline; aborting only detaches this caller.
+            const { timeout, priority } = options;
+            const shared = this.cache.fetch<T>(method, payload.params, () => this.request<T>(payload, { timeout, priority }));
+            return options.signal ? this.detachOnAbort(shared, payload, options.signal) : shared;
+        });
+    }
+
+    // Spans the whole call, including queueing, retries and cache hits.
+    private async measure<T>(payload: RpcRequest, run: () => Promise<T>): Promise<T> {
+        if (this.instruments.length === 0) return run();
+
+        const start: RequestStartEvent = {
+            requestId: payload.request_id,
+            method: payload.type,
+            params: payload.params,
+            endpoint: this.endpoint,
+            startedAt: Date.now(),
+            queueDepth: this.queue.length,
+            inFlight: this.pending.size,
+        };
+        this.instrument('onRequestStart', start);
+
+        try {
+            const result = await run();
+            this.instrument('onRequestEnd', { ...start, endpoint: this.endpoint, duration: Date.now() - start.startedAt, error: null });
+            return result;
+        } catch (e) {
+            this.instrument('onRequestEnd', { ...start, endpoint: this.endpoint, duration: Date.now() - start.startedAt, error: e as Error });
+            throw e;
+        }
+    }
+
+    public addInstrumentation(instrumentation: Instrumentation): () => void {
+        this.instruments.push(instrumentation);
+        return () => {
+            this.instruments = this.instruments.filter(item => item !== instrumentation);
+        };
+    }
+
+    // A failing hook is reported and never affects the request or subscription it observes.
+    private instrument<K extends keyof Instrumentation>(hook: K, event: Parameters<NonNullable<Instrumentation[K]>>[0]) {
+        this.instruments.forEach(instrumentation => {
+            try {
+                (instrumentation[hook] as ((event: any) => void) | undefined)?.call(instrumentation, event);
+            } catch (e) {
+                this.emit('error', e as Error);
+            }
+        });
+    }
+
+    private detachOnAbort<T>(promise: Promise<T>, payload: RpcRequest, signal: AbortSignal): Promise<T> {
         return new Promise<T>((resolve, reject) => {
-            if (this.isConnected) {
-                this.sendToWs(payload, resolve, reject);
-            } else {
-                this.queue.push({ payload, resolve, reject });
-                if (!this.isConnecting) this.connect();
+            const onAbort = () => reject(new WaxRpcAbortedError(this.errorContext(payload)));
+            if (signal.aborted) return onAbort();
+
+            signal.addEventListener('abort', onAbort);
+            promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+        });
+    }
+
+    private async request<T>(payload: RpcRequest, options: CallOptions = {}): Promise<T> {
+        const method = payload.type;
+        const expiresAt = options.deadline instanceof Date ? options.deadline.getTime() : options.deadline ?? Infinity;
+
+        for (let attempt = 1; ; attempt++) {
+            try {
+                return await this.dispatch<T>(payload, { ...options, deadline: expiresAt });
+            } catch (e) {
+                const delay = this.requestRetryDelay(method, attempt, e as Error);
+                if (delay === null || options.signal?.aborted || Date.now() + delay >= expiresAt) throw e;
+                await this.waitForRetry(delay, payload, options.signal);
+            }
+        }
+    }
+
+    private dispatch<T>(payload: RpcRequest, options: CallOptions & { deadline?: number } = {}): Promise<T> {
+        const { signal } = options;
+        const method = payload.type;
+        const expiresAt = options.deadline ?? Infinity;
+        const timeout = Math.min(
+            options.timeout ?? this.options.methodTimeouts[method] ?? this.options.requestTimeOut,
+            Math.max(expiresAt - Date.now(), 0)
+        );
+        const priority = options.priority ?? this.options.methodPriorities[method] ?? (isIdempotentMethod(method) ? 0 : 1);
+
+        return new Promise<T>((resolve, reject) => {
+            if (this.closed) {
+                reject(new WaxConnectionClosedError("Client closed", this.errorContext(payload)));
+                return;
+            }
+            if (signal?.aborted) {
+                reject(new WaxRpcAbortedError(this.errorContext(payload)));
+                return;
+            }
+
+            const onAbort = () => this.cancelRequest(payload.request_id, new WaxRpcAbortedError(this.errorContext(payload)));
+            const settle = (fn: Function) => (value: any) => {
+                signal?.removeEventListener('abort', onAbort);
+                fn(value);
+            };
+            signal?.addEventListener('abort', onAbort);
+
+            const item: QueuedRequest = {
+                payload,
+                resolve: settle(resolve),
+                reject: settle(reject),
+                priority,
+                timeout,
+                deadline: Date.now() + timeout,
+                expiresAt,
+            };
+
+            if (this.canSend()) {
+                this.sendToWs(item);
+            } else if (this.enqueue(item)) {
+                this.scheduleSweep(item.deadline);
+                if (this.canStartConnect) this.ensureConnected();
             }
         });
     }
 
+    // The queue stays sorted by priority, first come first served within one priority.
+    // When it is full, a request only gets in by evicting a lower-priority one.
+    private enqueue(item: QueuedRequest): boolean {
+        if (this.queue.length >= this.options.maxQueueSize) {
+            const lowest = this.queue[this.queue.length - 1];
+            if (!lowest || lowest.priority >= item.priority) {
+                item.reject(new WaxQueueOverflowError(this.queue.length, this.errorContext(item.payload)));
+                return false;
+            }
+            this.queue.pop();
+            lowest.reject(new WaxQueueOverflowError(this.queue.length + 1, this.errorContext(lowest.payload)));
+        }
+
+        const index = this.queue.findIndex(queued => queued.priority < item.priority);
+        if (index === -1) this.queue.push(item);
+        else this.queue.splice(index, 0, item);
+        return true;
+    }
+
+    public batch(requests: BatchRequest[], options: CallOptions = {}): Promise<PromiseSettledResult<any>[]> {
+        const calls = this.withBatch(() => requests.map(({ method, params }) => this.call(method, params, options)));
+        return Promise.allSettled(calls);
+    }
+
+    private cancelRequest(requestId: string, error: Error) {
+        const request = this.pending.get(requestId);
+        if (request) {
+            this.releasePending(requestId);
+            request.reject(error);
+            return;
+        }
+
+        const index = this.queue.findIndex(item => item.payload.request_id === requestId);
+        if (index !== -1) {
+            const [item] = this.queue.splice(index, 1);
+            item.reject(error);
+        }
+    }
+
+    // An abort ends the wait at once instead of after the full delay.
+    private waitForRetry(delay: number, payload: RpcRequest, signal?: AbortSignal): Promise<void> {
+        return new Promise<void>((resolve, reject) => {
+            const onAbort = () => {
+                clearTimeout(wait.timer);
+                this.retryWaits.delete(wait);
+                reject(new WaxRpcAbortedError(this.errorContext(payload)));
+            };
+            const settle = (fn: Function) => (value?: any) => {
+                signal?.removeEventListener('abort', onAbort);
+                fn(value);
+            };
+            const wait = {
+                timer: setTimeout(() => {
+                    this.retryWaits.delete(wait);
+                    settle(resolve)();
+                }, delay),
+                reject: settle(reject),
+            };
+            this.retryWaits.add(wait);
+            signal?.addEventListener('abort', onAbort);
+        });
+    }
+
+    // Only timeouts of idempotent reads are retried; pushes never are, whatever the policy says.
+    private requestRetryDelay(method: string, attempt: number, error: Error): number | null {
+        if (!isIdempotentMethod(method) || !(error instanceof WaxRpcTimeoutError)) return null;
+        return this.options.retryPolicy.requestRetryDelay(method, attempt, error);
+    }
+
     public async get_abi(accountName: string): Promise<GetAbiResult> {
         return await this.call('get_abi', { account_name: accountName });
     }
@@ -522,7 +1848,7 @@ export class WebsocketJsonRpc implements AuthorityProvider, AbiProvider {
         return await this.call('get_scheduled_transactions', { json, lower_bound: lowerBound, limit });
     }
 
-    public async get_table_rows({
+    public async get_table_rows<T = any>({
         json = true,
         code,
         scope,
@@ -534,7 +1860,7 @@ export class WebsocketJsonRpc implements AuthorityProvider, AbiProvider {
         limit = 10,
         reverse = false,
         show_payer = false,
-    }: any): Promise<GetTableRowsResult> {
+    }: GetTableRowsParams): Promise<TableRowsResult<T>> {
         return await this.call('get_table_rows', {
             json,
             code,
@@ -556,16 +1882,57 @@ export class WebsocketJsonRpc implements AuthorityProvider, AbiProvider {
         lower_bound = '',
         upper_bound = '',
         limit = 10,
-    }: any): Promise<GetTableByScopeResult> {
+        reverse = false,
+    }: GetTableByScopeParams): Promise<TableByScopeResult> {
         return await this.call('get_table_by_scope', {
             code,
             table,
             lower_bound,
             upper_bound,
             limit,
+            reverse,
         });
     }
 
+    // Follows `next_key` across pages; with `reverse` the key bounds the next page from above.
+    public async *iterateTableRows<T = any>(params: GetTableRowsParams, options: IterateOptions = {}): AsyncGenerator<T> {
+        const pageSize = params.limit ?? 100;
+        let remaining = options.maxRows ?? Infinity;
+        let bounds = { lower_bound: params.lower_bound, upper_bound: params.upper_bound };
+
+        while (remaining > 0) {
+            const result = await this.get_table_rows<T>({ ...params, ...bounds, limit: Math.min(pageSize, remaining) });
+
+            for (const row of result.rows) {
+                yield row;
+                if (--remaining <= 0) return;
+            }
+
+            if (!result.more || !result.next_key) return;
+            bounds = params.reverse
+                ? { lower_bound: params.lower_bound, upper_bound: result.next_key }
+                : { lower_bound: result.next_key, upper_bound: params.upper_bound };
+        }
+    }
+
+    public async *iterateScopes(params: GetTableByScopeParams, options: IterateOptions = {}): AsyncGenerator<GetTableByScopeResultRow> {
+        const pageSize = params.limit ?? 100;
+        let remaining = options.maxRows ?? Infinity;
+        let lowerBound = params.lower_bound;
+
+        while (remaining > 0) {
+            const result = await this.get_table_by_scope({ ...params, lower_bound: lowerBound, limit: Math.min(pageSize, remaining) });
+
+            for (const row of result.rows) {
+                yield row;
+                if (--remaining <= 0) return;
+            }
+
+            if (!result.more) return;
+            lowerBound = result.more;
+        }
+    }
+
     public async getRequiredKeys(args: AuthorityProviderArgs): Promise<string[]> {
         const result = await this.call('get_required_keys', {
             transaction: args.transaction,
@@ -621,48 +1988,43 @@ export class WebsocketJsonRpc implements AuthorityProvider, AbiProvider {
             packed_trx: arrayToHex(serializedTransaction),
         });
     }
-}
-
-export class WebSocketProvider implements APIProvider {
-    private wsRpc: WebsocketJsonRpc;
-    private fallbackProvider: FetchProvider;
 
-    constructor(wsEndpoint: string, httpEndpoint: string) {
-        this.wsRpc = new WebsocketJsonRpc(wsEndpoint);
-        this.fallbackProvider = new FetchProvider(httpEndpoint);
+    public contract<
+        Actions extends Record<string, any> = Record<string, any>,
+        Tables extends Record<string, any> = Record<string, any>
+    >(account: string, options: ContractOptions = {}): Promise<ContractBinding<Actions, Tables>> {
+        return ContractBinding.load<Actions, Tables>(this, account, options);
     }
 
-    private extractMethodName(path: string): string {
-        let cleaned = path.replace(/^\/v1\/chain\//, '');
-        if (cleaned.startsWith('/')) cleaned = cleaned.substring(1);
-
-        return cleaned;
+    public trackTransaction(txId: string, options: TrackTransactionOptions = {}): TransactionTracker {
+        return new TransactionTracker(this, txId, options);
     }
 
-    async call(args: {
-        path: string;
-        params?: unknown;
-    }): Promise<APIResponse> {
-        const apiName = this.extractMethodName(args.path);
-
-        try {
-            const wsrpcAny = this.wsRpc as any;
-
-            if (typeof wsrpcAny[apiName] === 'function') {
-                const result = await wsrpcAny.call(apiName, args.params);
+    public async transactAndWait(args: PushTransactionArgs, options: TransactAndWaitOptions = {}): Promise<TransactAndWaitResult> {
+        const { waitFor = 'irreversible', onStage, ...trackOptions } = options;
+        const result = await this.send_transaction(args);
 
-                return {
-                    status: 200,
-                    headers: {},
-                    json: result,
-                    text: JSON.stringify(result),
-                };
-            }
+        // The packed transaction header starts with its expiration as uint32 seconds, little endian.
+        const header = args.serializedTransaction;
+        const expiration = header.length >= 4
+            ? (header[0] | header[1] << 8 | header[2] << 16 | header[3] << 24) >>> 0
+            : undefined;
 
-        } catch (err) {
-            console.warn(`WS call for ${apiName} failed, falling back to HTTP...`, err);
+        const tracker = this.trackTransaction(result.transaction_id, {
+            blockHint: result.processed?.block_num,
+            expiration,
+            ...trackOptions,
+        });
+        if (onStage) {
+            onStage(tracker.current);
+            tracker.on('stage', onStage);
         }
 
-        return this.fallbackProvider.call(args);
+        try {
+            const status = await (waitFor === 'included' ? tracker.included : tracker.irreversible);
+            return { result, status };
+        } finally {
+            tracker.stop();
+        }
     }
-}
\ No newline at end of file
+}
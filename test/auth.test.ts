@@ -0,0 +1,88 @@
+import { MockWaxRpcServer, WaxAuthError } from '../src';
+import { closeClients, createClient, nextEvent, wait } from './helpers';
+
+afterEach(closeClients);
+
+describe('handshake', () => {
+    it('passes protocols and headers to the transport', async () => {
+        const server = new MockWaxRpcServer().reply('get_info', {});
+        const rpc = createClient(server, { protocols: ['wax-rpc.v1'], headers: { 'x-api-key': 'key' } });
+
+        await rpc.get_info();
+
+        expect(server.handshakes[0]).toEqual({ endpoint: 'ws://mock', protocols: ['wax-rpc.v1'], headers: { 'x-api-key': 'key' } });
+        expect(rpc.protocol).toBe('wax-rpc.v1');
+    });
+});
+
+describe('auth', () => {
+    it('sends the token in the handshake headers', async () => {
+        const server = new MockWaxRpcServer().reply('get_info', {});
+        const rpc = createClient(server, { auth: { token: 'secret' } });
+
+        await rpc.get_info();
+
+        expect(server.handshakes[0].headers).toMatchObject({ Authorization: 'Bearer secret' });
+    });
+
+    it('adds the token to the URL with via query', async () => {
+        const server = new MockWaxRpcServer().reply('get_info', {});
+        const rpc = createClient(server, { auth: { token: 'secret', via: 'query', queryParam: 'key' } }, 'ws://mock/rpc');
+
+        await rpc.get_info();
+
+        expect(server.handshakes[0].endpoint).toBe('ws://mock/rpc?key=secret');
+    });
+
+    it('sends an auth message before any request with via message', async () => {
+        const server = new MockWaxRpcServer().reply('get_info', {});
+        const rpc = createClient(server, { auth: { token: 'secret', via: 'message' } });
+
+        await rpc.get_info();
+
+        expect(server.requests.map(request => [request.method, request.params])).toEqual([
+            ['auth', { token: 'secret' }],
+            ['get_info', ''],
+        ]);
+    });
+
+    it('asks the token provider again on every reconnect', async () => {
+        const server = new MockWaxRpcServer().reply('get_info', {});
+        let issued = 0;
+        const rpc = createClient(server, { auth: { token: async () => `token${++issued}` }, reconnectInterval: 5 });
+
+        await rpc.get_info();
+        server.disconnect();
+        await nextEvent(rpc, 'open');
+
+        expect(server.handshakes.map(handshake => handshake.headers.Authorization)).toEqual(['Bearer token1', 'Bearer token2']);
+    });
+
+    it('stops reconnecting when the node rejects the token', async () => {
+        const server = new MockWaxRpcServer().reply('get_info', {});
+        server.authorize(handshake => handshake.headers.Authorization === 'Bearer good');
+        const rpc = createClient(server, { auth: { token: 'bad' }, reconnectInterval: 5 });
+
+        const failed = nextEvent(rpc, 'auth_failed');
+        await expect(rpc.get_info()).rejects.toBeInstanceOf(WaxAuthError);
+        const [error] = await failed;
+        await wait(30);
+
+        expect(error).toBeInstanceOf(WaxAuthError);
+        expect(server.handshakes).toHaveLength(1);
+    });
+
+    it('treats an auth close code as a rejected token', async () => {
+        const server = new MockWaxRpcServer().reply('get_info', {});
+        const rpc = createClient(server, { auth: { token: 'secret' }, reconnectInterval: 5 });
+        await rpc.get_info();
+
+        const failed = nextEvent(rpc, 'auth_failed');
+        server.disconnect(4401, 'token expired');
+        const [error] = await failed;
+        await wait(30);
+
+        expect(error).toMatchObject({ name: 'WaxAuthError', message: 'token expired', code: 4401 });
+        expect(server.handshakes).toHaveLength(1);
+    });
+});
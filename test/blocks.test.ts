@@ -0,0 +1,178 @@
+import { ActionTrace, BlockHeader, FinalityBuffer, MockWaxRpcServer } from '../src';
+import { closeClients, createClient, wait } from './helpers';
+
+afterEach(closeClients);
+
+// Ids are the fork letter and the block number, so 'b3' follows 'b2'.
+const block = (blockNum: number, id: string, lastIrreversible: number = 0, previous: string = `${id[0]}${blockNum - 1}`) => ({
+    block_num: blockNum,
+    block_id: id,
+    previous,
+    timestamp: '2024-01-01T00:00:00.000',
+    producer: 'eosio',
+    last_irreversible_block_num: lastIrreversible,
+});
+
+const transfer = (blockNum: number): Omit<ActionTrace, 'type'> => ({
+    tx_id: `tx${blockNum}`,
+    block_num: blockNum,
+    block_time: '2024-01-01T00:00:00.000',
+    cpu_usage_us: 100,
+    net_usage: 128,
+    receiver: 'eosio.token',
+    trace: { account: 'eosio.token', name: 'transfer', authorization: [], data: {} },
+});
+
+describe('block subscriptions', () => {
+    it('delivers head blocks marked against the last irreversible block', async () => {
+        const server = new MockWaxRpcServer();
+        const rpc = createClient(server);
+        const blocks: BlockHeader[] = [];
+
+        await rpc.subscribeBlocks(data => blocks.push(data)).ready;
+        server.pushBlock(block(5, 'a5', 4));
+        server.pushBlock(block(6, 'a6', 4));
+        await wait(10);
+
+        expect(server.requests[0]).toMatchObject({ method: 'subscribe_block', params: { mode: 'head' } });
+        expect(blocks.map(data => [data.block_num, data.irreversible])).toEqual([[5, false], [6, false]]);
+        expect(rpc.lastIrreversibleBlock).toBe(4);
+    });
+
+    it('marks traces as irreversible while a block stream is open', async () => {
+        const server = new MockWaxRpcServer();
+        const rpc = createClient(server);
+        const traces: ActionTrace[] = [];
+
+        await rpc.subscribeBlocks(() => {}).ready;
+        await rpc.subscribeTrace('eosio.token::transfer', trace => traces.push(trace)).ready;
+        server.pushBlock(block(10, 'a10', 8));
+        server.pushActionTrace(transfer(8));
+        server.pushActionTrace(transfer(9));
+        await wait(10);
+
+        expect(traces.map(trace => trace.irreversible)).toEqual([true, false]);
+    });
+
+    it('reports a fork when a head block arrives below the current head', async () => {
+        const server = new MockWaxRpcServer();
+        const rpc = createClient(server);
+        const onFork = jest.fn();
+        rpc.on('fork', onFork);
+
+        const trace = rpc.subscribeTrace('eosio.token::transfer', () => {});
+        await rpc.subscribeBlocks(() => {}).ready;
+        await trace.ready;
+        server.pushBlock(block(1, 'a1'));
+        server.pushBlock(block(2, 'a2'));
+        server.pushBlock(block(3, 'a3'));
+        server.pushActionTrace(transfer(3));
+        await wait(10);
+        expect(trace.lastBlock).toBe(3);
+
+        server.pushBlock(block(2, 'b2'));
+        await wait(10);
+
+        expect(onFork).toHaveBeenCalledWith({ undoneBlocks: [2, 3], previousHead: 3, newHead: 2, newHeadId: 'b2' });
+        expect(trace.lastBlock).toBe(1);
+    });
+
+    it('treats a repeated head block as a duplicate and a different id as a fork', async () => {
+        const server = new MockWaxRpcServer();
+        const rpc = createClient(server);
+        const onFork = jest.fn();
+        rpc.on('fork', onFork);
+
+        await rpc.subscribeBlocks(() => {}).ready;
+        server.pushBlock(block(1, 'a1'));
+        server.pushBlock(block(2, 'a2'));
+        server.pushBlock(block(2, 'a2'));
+        await wait(10);
+        expect(onFork).not.toHaveBeenCalled();
+
+        server.pushBlock(block(2, 'b2'));
+        await wait(10);
+        expect(onFork).toHaveBeenCalledWith(expect.objectContaining({ previousHead: 2, newHead: 2, newHeadId: 'b2' }));
+    });
+
+    it('reports a fork when a higher block does not build on the current head', async () => {
+        const server = new MockWaxRpcServer().reply('get_block', (params: any) => ({
+            id: params.block_num_or_id,
+            previous: { b3: 'b2', b2: 'a1' }[params.block_num_or_id as string],
+        }));
+        const rpc = createClient(server);
+        const onFork = jest.fn();
+        rpc.on('fork', onFork);
+
+        const trace = rpc.subscribeTrace('eosio.token::transfer', () => {});
+        await rpc.subscribeBlocks(() => {}).ready;
+        await trace.ready;
+        server.pushBlock(block(1, 'a1'));
+        server.pushBlock(block(2, 'a2'));
+        server.pushBlock(block(3, 'a3'));
+        server.pushActionTrace(transfer(3));
+        await wait(10);
+
+        server.pushBlock(block(4, 'b4'));
+        await wait(20);
+
+        expect(onFork).toHaveBeenCalledWith({ undoneBlocks: [2, 3], previousHead: 3, newHead: 4, newHeadId: 'b4' });
+        expect(server.requests.filter(request => request.method === 'get_block').map(request => request.params.block_num_or_id)).toEqual(['b3', 'b2']);
+        expect(trace.lastBlock).toBe(1);
+
+        server.pushBlock(block(5, 'b5'));
+        await wait(10);
+        expect(onFork).toHaveBeenCalledTimes(1);
+    });
+});
+
+describe('FinalityBuffer', () => {
+    it('releases items once their block is irreversible and drops those a fork undid', async () => {
+        const server = new MockWaxRpcServer();
+        const rpc = createClient(server);
+        const released: ActionTrace[] = [];
+        const undone: ActionTrace[] = [];
+
+        const buffer = new FinalityBuffer<ActionTrace>(rpc, trace => released.push(trace), {
+            onUndone: trace => undone.push(trace),
+        });
+        await rpc.subscribeTrace('eosio.token::transfer', buffer.push).ready;
+
+        server.pushBlock(block(1, 'a1'));
+        server.pushBlock(block(2, 'a2'));
+        server.pushBlock(block(3, 'a3'));
+        server.pushActionTrace(transfer(2));
+        server.pushActionTrace(transfer(3));
+        await wait(10);
+        expect(buffer.pending).toBe(2);
+
+        server.pushBlock(block(3, 'b3'));
+        server.pushBlock(block(4, 'b4', 3));
+        await wait(10);
+
+        expect(released.map(trace => trace.tx_id)).toEqual(['tx2']);
+        expect(undone.map(trace => trace.tx_id)).toEqual(['tx3']);
+        expect(buffer.pending).toBe(0);
+        await buffer.close();
+    });
+
+    it('drops items a longer fork undid', async () => {
+        const server = new MockWaxRpcServer().reply('get_block', { previous: 'a1' });
+        const rpc = createClient(server);
+        const undone: ActionTrace[] = [];
+
+        const buffer = new FinalityBuffer<ActionTrace>(rpc, () => {}, { onUndone: trace => undone.push(trace) });
+        await rpc.subscribeTrace('eosio.token::transfer', buffer.push).ready;
+
+        server.pushBlock(block(1, 'a1'));
+        server.pushBlock(block(2, 'a2'));
+        server.pushActionTrace(transfer(2));
+        await wait(10);
+        server.pushBlock(block(3, 'b3'));
+        await wait(20);
+
+        expect(undone.map(trace => trace.tx_id)).toEqual(['tx2']);
+        expect(buffer.pending).toBe(0);
+        await buffer.close();
+    });
+});
@@ -0,0 +1,147 @@
+import { JsonCodec, MessagePackCodec, MockWaxRpcServer, resolveCodecs } from '../src';
+import { closeClients, createClient } from './helpers';
+
+const roundTrip = (value: any) => MessagePackCodec.decode(MessagePackCodec.encode(value));
+
+const encoded = (value: any) => MessagePackCodec.encode(value) as Uint8Array;
+
+describe('MessagePackCodec', () => {
+    it('round-trips plain values', () => {
+        const value = {
+            head_block_num: 123456,
+            negative: -33,
+            ratio: 0.25,
+            irreversible: true,
+            producer: null,
+            actions: [{ account: 'eosio.token', name: 'transfer' }],
+        };
+
+        expect(roundTrip(value)).toEqual(value);
+    });
+
+    it('picks the smallest integer format', () => {
+        expect(Array.from(encoded(127))).toEqual([0x7f]);
+        expect(Array.from(encoded(-32))).toEqual([0xe0]);
+        expect(encoded(255)[0]).toBe(0xcc);
+        expect(encoded(65535)[0]).toBe(0xcd);
+        expect(encoded(2 ** 32 - 1)[0]).toBe(0xce);
+        expect(encoded(-129)[0]).toBe(0xd1);
+        expect(encoded(-(2 ** 31))[0]).toBe(0xd2);
+    });
+
+    it('keeps 64-bit integers exact', () => {
+        expect(encoded(2 ** 40)[0]).toBe(0xcf);
+        expect(roundTrip(2 ** 40)).toBe(2 ** 40);
+        expect(roundTrip(-(2 ** 40))).toBe(-(2 ** 40));
+        expect(roundTrip(18446744073709551615n)).toBe('18446744073709551615');
+        expect(roundTrip(-9223372036854775808n)).toBe('-9223372036854775808');
+    });
+
+    it('uses str8, str16 and str32 as strings grow', () => {
+        const lengths: Array<[number, number]> = [[31, 0xbf], [32, 0xd9], [255, 0xd9], [256, 0xda], [65536, 0xdb]];
+
+        lengths.forEach(([length, code]) => {
+            const value = 'x'.repeat(length);
+            expect(encoded(value)[0]).toBe(code);
+            expect(roundTrip(value)).toBe(value);
+        });
+        expect(roundTrip('สวัสดี WAX')).toBe('สวัสดี WAX');
+    });
+
+    it('uses array16 and map16 past 15 entries', () => {
+        const array = Array.from({ length: 16 }, (_, i) => i);
+        const map = Object.fromEntries(array.map(i => [`key${i}`, i]));
+
+        expect(encoded(array)[0]).toBe(0xdc);
+        expect(encoded(map)[0]).toBe(0xde);
+        expect(roundTrip(array)).toEqual(array);
+        expect(roundTrip(map)).toEqual(map);
+    });
+
+    it('round-trips binary data and leaves out undefined properties', () => {
+        const bytes = new Uint8Array([1, 2, 3]);
+
+        expect(roundTrip({ bytes, skipped: undefined })).toEqual({ bytes });
+    });
+
+    it('rejects truncated and trailing data', () => {
+        const bytes = encoded({ a: 'abc' });
+
+        expect(() => MessagePackCodec.decode(bytes.subarray(0, bytes.length - 1))).toThrow(/Unexpected end/);
+        expect(() => MessagePackCodec.decode(new Uint8Array([...bytes, 0xc0]))).toThrow(/Trailing bytes/);
+    });
+
+    it('decodes a __proto__ key as a plain property', () => {
+        const decoded = roundTrip(JSON.parse('{"__proto__": {"admin": true}, "name": "alice"}'));
+
+        expect(Object.getPrototypeOf(decoded)).toBe(Object.prototype);
+        expect(decoded.admin).toBeUndefined();
+        expect(Object.keys(decoded)).toEqual(['__proto__', 'name']);
+        expect(Object.getOwnPropertyDescriptor(decoded, '__proto__')?.value).toEqual({ admin: true });
+    });
+
+    it('decodes the three timestamp extension formats as dates', () => {
+        const timestamp64 = new DataView(new ArrayBuffer(8));
+        timestamp64.setBigUint64(0, (500000000n << 34n) | 2n);
+        const timestamp96 = new DataView(new ArrayBuffer(12));
+        timestamp96.setUint32(0, 250000000);
+        timestamp96.setBigInt64(4, -3n);
+
+        expect(MessagePackCodec.decode(new Uint8Array([0xd6, 0xff, 0, 0, 0, 60]))).toEqual(new Date(60000));
+        expect(MessagePackCodec.decode(new Uint8Array([0xd7, 0xff, ...new Uint8Array(timestamp64.buffer)]))).toEqual(new Date(2500));
+        expect(MessagePackCodec.decode(new Uint8Array([0xc7, 12, 0xff, ...new Uint8Array(timestamp96.buffer)]))).toEqual(new Date(-2750));
+    });
+
+    it('returns other extension types undecoded', () => {
+        const map = new Uint8Array([0x82, 0xa1, 0x61, 0xd4, 0x05, 0xaa, 0xa1, 0x62, 0xc8, 0x00, 0x02, 0x07, 0x01, 0x02]);
+
+        expect(MessagePackCodec.decode(map)).toEqual({
+            a: { type: 5, data: new Uint8Array([0xaa]) },
+            b: { type: 7, data: new Uint8Array([1, 2]) },
+        });
+        expect(MessagePackCodec.decode(new Uint8Array([0xd8, 0x01, ...new Array(16).fill(0)]))).toMatchObject({ type: 1 });
+        expect(() => MessagePackCodec.decode(new Uint8Array([0xc7, 2, 0xff, 0, 0]))).toThrow('Invalid MessagePack timestamp length 2');
+    });
+});
+
+describe('resolveCodecs', () => {
+    it('always ends with JSON', () => {
+        expect(resolveCodecs(['msgpack']).map(codec => codec.name)).toEqual(['msgpack', 'json']);
+        expect(resolveCodecs(['json', 'msgpack'])).toEqual([JsonCodec, MessagePackCodec]);
+        expect(() => resolveCodecs(['cbor'])).toThrow("Unknown encoding 'cbor'");
+    });
+});
+
+describe('encoding negotiation', () => {
+    afterEach(closeClients);
+
+    it('switches to MessagePack frames when both sides support it', async () => {
+        const server = new MockWaxRpcServer({ encodings: ['msgpack'] }).reply('get_info', { head_block_num: 2 ** 40 });
+        const frames: any[] = [];
+        const transport = {
+            open: (endpoint: string) => {
+                const socket = server.open(endpoint);
+                const send = socket.send.bind(socket);
+                socket.send = (data: any) => {
+                    frames.push(data);
+                    send(data);
+                };
+                return socket;
+            },
+        };
+        const rpc = createClient(server, { transport, encodings: ['msgpack', 'json'] });
+
+        await expect(rpc.get_info()).resolves.toEqual({ head_block_num: 2 ** 40 });
+        expect(rpc.encoding).toBe('msgpack');
+        expect(typeof frames[0]).toBe('string');
+        expect(frames[frames.length - 1]).toBeInstanceOf(Uint8Array);
+    });
+
+    it('stays on JSON when the server only speaks JSON', async () => {
+        const server = new MockWaxRpcServer().reply('get_info', { head_block_num: 1 });
+        const rpc = createClient(server, { encodings: ['msgpack', 'json'] });
+
+        await expect(rpc.get_info()).resolves.toEqual({ head_block_num: 1 });
+        expect(rpc.encoding).toBe('json');
+    });
+});
@@ -0,0 +1,147 @@
+import { ABIDef, Asset, Serializer } from '@wharfkit/antelope';
+import { ActionTrace, ContractBinding, MockWaxRpcServer, WaxAbiError, abiToTypeScript } from '../src';
+import { closeClients, createClient, wait } from './helpers';
+
+afterEach(closeClients);
+
+const tokenAbi: ABIDef = {
+    version: 'eosio::abi/1.2',
+    types: [],
+    structs: [
+        {
+            name: 'transfer',
+            base: '',
+            fields: [
+                { name: 'from', type: 'name' },
+                { name: 'to', type: 'name' },
+                { name: 'quantity', type: 'asset' },
+                { name: 'memo', type: 'string' },
+            ],
+        },
+        { name: 'account', base: '', fields: [{ name: 'balance', type: 'asset' }] },
+    ],
+    actions: [{ name: 'transfer', type: 'transfer', ricardian_contract: '' }],
+    tables: [{ name: 'accounts', type: 'account', index_type: 'i64', key_names: [], key_types: [] }],
+};
+
+const transfer = { from: 'alice', to: 'bob', quantity: '1.00000000 WAX', memo: 'hi' };
+
+const trace = (data: any): ActionTrace => ({
+    type: 'action_trace',
+    tx_id: 'tx',
+    block_num: 10,
+    block_time: '2024-01-01T00:00:00.000',
+    cpu_usage_us: 100,
+    net_usage: 128,
+    receiver: 'eosio.token',
+    trace: { account: 'eosio.token', name: 'transfer', authorization: [], data },
+});
+
+describe('ContractBinding', () => {
+    it('loads the ABI through get_abi', async () => {
+        const server = new MockWaxRpcServer().reply('get_abi', { account_name: 'eosio.token', abi: tokenAbi });
+        const rpc = createClient(server);
+
+        const token = await rpc.contract('eosio.token');
+
+        expect(token.actionType('transfer')).toBe('transfer');
+        expect(token.tableType('accounts')).toBe('account');
+        expect(server.requests[0].params).toEqual({ account_name: 'eosio.token' });
+    });
+
+    it('fails to load an account without an ABI', async () => {
+        const server = new MockWaxRpcServer().reply('get_abi', { account_name: 'alice' });
+        const rpc = createClient(server);
+
+        await expect(rpc.contract('alice')).rejects.toThrow(new WaxAbiError('Account alice has no ABI', 'alice'));
+    });
+
+    it('decodes action data given as objects or hex', () => {
+        const token = new ContractBinding(createClient(new MockWaxRpcServer(), { autoConnect: false }), 'eosio.token', tokenAbi);
+        const hex = Serializer.encode({ object: transfer, type: 'transfer', abi: tokenAbi }).hexString;
+
+        expect(token.decodeAction('transfer', transfer)).toEqual(transfer);
+        expect(token.decodeAction('transfer', hex)).toEqual(transfer);
+        expect(token.decodeTrace(trace(hex)).trace.data).toEqual(transfer);
+    });
+
+    it('returns wharfkit types when asked to', () => {
+        const rpc = createClient(new MockWaxRpcServer(), { autoConnect: false });
+        const token = new ContractBinding(rpc, 'eosio.token', tokenAbi, { values: 'wharfkit' });
+
+        const decoded = token.decodeTable('accounts', { balance: '2.50000000 WAX' });
+
+        expect(decoded.balance).toBeInstanceOf(Asset);
+        expect(String(decoded.balance)).toBe('2.50000000 WAX');
+    });
+
+    it('reports unknown names and undecodable data as WaxAbiError', () => {
+        const token = new ContractBinding(createClient(new MockWaxRpcServer(), { autoConnect: false }), 'eosio.token', tokenAbi);
+
+        expect(() => token.decodeAction('issue', {})).toThrow('Unknown action eosio.token::issue');
+        expect(() => token.decodeTable('stat', {})).toThrow('Unknown table eosio.token::stat');
+        expect(() => token.decodeAction('transfer', { from: 'alice' })).toThrow(WaxAbiError);
+    });
+
+    it('decodes deltas delivered to table subscriptions', async () => {
+        const server = new MockWaxRpcServer();
+        const rpc = createClient(server);
+        const token = new ContractBinding(rpc, 'eosio.token', tokenAbi);
+        const balances: any[] = [];
+
+        await token.subscribeTable('accounts', 'alice', delta => balances.push([delta.data, delta.old_data])).ready;
+        server.pushTableDelta({
+            code: 'eosio.token',
+            scope: 'alice',
+            table: 'accounts',
+            primary_key: 1,
+            payer: 'alice',
+            action: 'UPDATE',
+            data: { balance: '2.00000000 WAX' },
+            old_data: { balance: '1.00000000 WAX' },
+        });
+        await wait(10);
+
+        expect(balances).toEqual([[{ balance: '2.00000000 WAX' }, { balance: '1.00000000 WAX' }]]);
+    });
+});
+
+describe('abiToTypeScript', () => {
+    it('declares structs and the action and table maps', () => {
+        const source = abiToTypeScript(tokenAbi, { name: 'eosio.token' });
+
+        expect(source).toContain('export interface Transfer {\n    from: string;\n    to: string;\n    quantity: string;\n    memo: string;\n}');
+        expect(source).toContain('export interface EosioTokenActions {\n    transfer: Transfer;\n}');
+        expect(source).toContain('export interface EosioTokenTables {\n    accounts: Account;\n}');
+    });
+
+    it('imports wharfkit classes for wharfkit values', () => {
+        const source = abiToTypeScript(tokenAbi, { values: 'wharfkit' });
+
+        expect(source.startsWith("import { Asset, Name } from '@wharfkit/antelope';")).toBe(true);
+        expect(source).toContain('    quantity: Asset;');
+    });
+
+    it('maps optional, array, extension and unknown types', () => {
+        const source = abiToTypeScript({
+            version: 'eosio::abi/1.2',
+            structs: [{
+                name: 'row',
+                base: '',
+                fields: [
+                    { name: 'tags', type: 'string[]' },
+                    { name: 'owner', type: 'name?' },
+                    { name: 'amounts', type: 'uint64[]' },
+                    { name: 'extra', type: 'uint32$' },
+                    { name: 'blob', type: 'mystery' },
+                ],
+            }],
+        });
+
+        expect(source).toContain('    tags: string[];');
+        expect(source).toContain('    owner: string | null;');
+        expect(source).toContain('    amounts: (number | string)[];');
+        expect(source).toContain('    extra?: number;');
+        expect(source).toContain('    blob: unknown;');
+    });
+});
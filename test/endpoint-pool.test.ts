@@ -0,0 +1,48 @@
+import { EndpointPool } from '../src';
+
+describe('EndpointPool', () => {
+    it('drops duplicates and trailing slashes', () => {
+        const pool = new EndpointPool(['ws://a/', 'ws://a', 'ws://b']);
+
+        expect(pool.snapshot().map(health => health.url)).toEqual(['ws://a', 'ws://b']);
+        expect(pool.active).toBe('ws://a');
+        expect(() => new EndpointPool([])).toThrow("At least one endpoint is required");
+    });
+
+    it('smooths latency and error rate', () => {
+        const pool = new EndpointPool(['ws://a']);
+        pool.recordSuccess('ws://a', 100);
+        pool.recordSuccess('ws://a', 200);
+        pool.recordFailure('ws://a');
+
+        expect(pool.snapshot()[0]).toMatchObject({ latency: 130, errorRate: 0.2, successes: 2, failures: 1, consecutiveFailures: 1 });
+    });
+
+    it('picks the healthiest other endpoint', () => {
+        const pool = new EndpointPool(['ws://a', 'ws://b', 'ws://c']);
+        pool.recordSuccess('ws://b', 400);
+        pool.recordSuccess('ws://c', 50);
+
+        expect(pool.next()).toBe('ws://c');
+
+        pool.recordFailure('ws://c');
+        expect(pool.next()).toBe('ws://b');
+    });
+
+    it('fails over after the threshold only when there is somewhere to go', () => {
+        const pool = new EndpointPool(['ws://a', 'ws://b']);
+        pool.recordFailure('ws://a');
+        expect(pool.shouldFailover('ws://a', 2)).toBe(false);
+
+        pool.recordFailure('ws://a');
+        expect(pool.shouldFailover('ws://a', 2)).toBe(true);
+
+        pool.recordSuccess('ws://a', 10);
+        expect(pool.shouldFailover('ws://a', 2)).toBe(false);
+
+        const single = new EndpointPool(['ws://a']);
+        single.recordFailure('ws://a');
+        expect(single.shouldFailover('ws://a', 1)).toBe(false);
+        expect(single.next()).toBe('ws://a');
+    });
+});
@@ -0,0 +1,144 @@
+import {
+    ActionTrace,
+    MockWaxRpcServer,
+    TableDelta,
+    compileTableFilter,
+    compileTraceFilter,
+    parseTraceTarget,
+    tableServerParams,
+    traceServerParams,
+} from '../src';
+import { closeClients, createClient, wait } from './helpers';
+
+afterEach(closeClients);
+
+const trace = (overrides: Partial<ActionTrace> = {}, data: any = { from: 'alice', to: 'bob', quantity: '1.00000000 WAX' }): ActionTrace => ({
+    type: 'action_trace',
+    tx_id: 'tx',
+    block_num: 10,
+    block_time: '2024-01-01T00:00:00.000',
+    cpu_usage_us: 100,
+    net_usage: 128,
+    receiver: 'eosio.token',
+    trace: { account: 'eosio.token', name: 'transfer', authorization: [{ actor: 'alice', permission: 'active' }], data },
+    ...overrides,
+});
+
+const delta = (primaryKey: string | number, overrides: Partial<TableDelta> = {}): TableDelta => ({
+    type: 'table_delta',
+    code: 'eosio.token',
+    scope: 'alice',
+    table: 'accounts',
+    primary_key: primaryKey,
+    payer: 'alice',
+    action: 'UPDATE',
+    data: {},
+    old_data: null,
+    ...overrides,
+});
+
+describe('trace filters', () => {
+    it('parses contract::action targets', () => {
+        expect(parseTraceTarget('eosio.token::transfer')).toEqual({ code: 'eosio.token', action: 'transfer' });
+        expect(parseTraceTarget('*::transfer')).toEqual({ code: '*', action: 'transfer' });
+        expect(() => parseTraceTarget('eosio.token')).toThrow("Invalid format. Use 'contract::action'");
+        expect(() => parseTraceTarget('a::b::c')).toThrow("Invalid format. Use 'contract::action'");
+    });
+
+    it('includes, excludes or keeps only notifications', () => {
+        const notification = trace({ receiver: 'bob' });
+
+        expect(compileTraceFilter({})(notification)).toBe(true);
+        expect(compileTraceFilter({ notifications: 'exclude' })(notification)).toBe(false);
+        expect(compileTraceFilter({ notifications: 'only' })(notification)).toBe(true);
+        expect(compileTraceFilter({ notifications: 'only' })(trace())).toBe(false);
+    });
+
+    it('matches receivers, actors and data fields', () => {
+        expect(compileTraceFilter({ receiver: ['bob', 'eosio.token'] })(trace())).toBe(true);
+        expect(compileTraceFilter({ receiver: 'bob' })(trace())).toBe(false);
+        expect(compileTraceFilter({ actor: 'alice' })(trace())).toBe(true);
+        expect(compileTraceFilter({ actor: ['carol'] })(trace())).toBe(false);
+        expect(compileTraceFilter({ data: { to: ['bob', 'carol'] } })(trace())).toBe(true);
+        expect(compileTraceFilter({ data: { quantity: (value: string) => value.endsWith(' WAX') } })(trace())).toBe(true);
+        expect(compileTraceFilter({ data: { from: 'bob' } })(trace())).toBe(false);
+        expect(compileTraceFilter({ data: { from: 'alice' } })(trace({}, null))).toBe(false);
+    });
+
+    it('sends only the serializable parts to the server', () => {
+        expect(traceServerParams({
+            receiver: 'bob',
+            notifications: 'exclude',
+            actor: ['alice'],
+            data: { to: 'bob', from: ['alice', 'carol'], quantity: (value: string) => value !== '' },
+        })).toEqual({
+            receivers: ['bob'],
+            notifications: 'exclude',
+            actors: ['alice'],
+            data: { to: 'bob', from: ['alice', 'carol'] },
+        });
+        expect(traceServerParams({ notifications: 'include', data: { to: () => true } })).toEqual({});
+    });
+
+    it('delivers wildcard subscriptions only the traces that pass the filter', async () => {
+        const server = new MockWaxRpcServer();
+        const rpc = createClient(server);
+        const received: string[] = [];
+
+        await rpc.subscribeTrace('*::transfer', { data: { to: 'bob' } }, data => received.push(data.tx_id)).ready;
+        server.pushActionTrace(trace({ tx_id: 'tx1' }));
+        server.pushActionTrace(trace({ tx_id: 'tx2' }, { from: 'alice', to: 'carol' }));
+        server.pushActionTrace(trace({ tx_id: 'tx3', trace: { account: 'other.token', name: 'transfer', authorization: [], data: { to: 'bob' } } }));
+        server.pushActionTrace(trace({ tx_id: 'tx4', trace: { account: 'eosio.token', name: 'issue', authorization: [], data: { to: 'bob' } } }));
+        await wait(10);
+
+        expect(received).toEqual(['tx1', 'tx3']);
+        expect(server.requests[0].params).toEqual({ code: '*', action: 'transfer', data: { to: 'bob' } });
+    });
+});
+
+describe('table filters', () => {
+    it('matches primary keys and bounds as uint64', () => {
+        const big = '18446744073709551615';
+
+        expect(compileTableFilter({ primaryKey: [1, big] })(delta(big))).toBe(true);
+        expect(compileTableFilter({ primaryKey: '18446744073709551614' })(delta(big))).toBe(false);
+        expect(compileTableFilter({ lowerBound: 10, upperBound: '20' })(delta(10))).toBe(true);
+        expect(compileTableFilter({ lowerBound: 10, upperBound: '20' })(delta(9))).toBe(false);
+        expect(compileTableFilter({ lowerBound: '9007199254740993' })(delta('9007199254740992'))).toBe(false);
+    });
+
+    it('matches actions and payers', () => {
+        expect(compileTableFilter({ actions: ['INSERT', 'UPDATE'] })(delta(1))).toBe(true);
+        expect(compileTableFilter({ actions: ['ERASE'] })(delta(1))).toBe(false);
+        expect(compileTableFilter({ payer: ['bob', 'alice'] })(delta(1))).toBe(true);
+        expect(compileTableFilter({ payer: 'bob' })(delta(1))).toBe(false);
+    });
+
+    it('sends keys and bounds to the server as strings', () => {
+        expect(tableServerParams({ primaryKey: 5, lowerBound: 1, upperBound: 10, actions: ['ERASE'], payer: 'alice' })).toEqual({
+            primary_keys: ['5'],
+            lower_bound: '1',
+            upper_bound: '10',
+            actions: ['ERASE'],
+            payers: ['alice'],
+        });
+    });
+
+    it('keeps differently filtered subscriptions apart', async () => {
+        const server = new MockWaxRpcServer();
+        const rpc = createClient(server);
+        const inserts: TableDelta[] = [];
+        const all: TableDelta[] = [];
+
+        await rpc.subscribeTable('eosio.token', 'alice', 'accounts', { actions: ['INSERT'] }, data => inserts.push(data)).ready;
+        await rpc.subscribeTable('eosio.token', 'alice', 'accounts', data => all.push(data)).ready;
+        server.pushTableDelta(delta(1, { action: 'INSERT' }));
+        server.pushTableDelta(delta(1));
+        await wait(10);
+
+        expect(server.requests.map(request => request.params.actions)).toEqual([['INSERT'], undefined]);
+        expect(inserts.map(data => data.action)).toEqual(['INSERT']);
+        expect(all.map(data => data.action)).toEqual(['INSERT', 'UPDATE']);
+    });
+});
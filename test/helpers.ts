@@ -0,0 +1,25 @@
+import { MockWaxRpcServer, WaxRpcEvents, WaxRpcOptions, WebsocketJsonRpc } from '../src';
+
+const clients: WebsocketJsonRpc[] = [];
+
+export const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Clients are closed after every test, so no socket or timer outlives it.
+export const createClient = (
+    server: MockWaxRpcServer,
+    options: WaxRpcOptions = {},
+    endpoints: string | string[] = 'ws://mock'
+): WebsocketJsonRpc => {
+    const rpc = new WebsocketJsonRpc(endpoints, { transport: server, ...options });
+    rpc.on('error', () => {});
+    clients.push(rpc);
+    return rpc;
+};
+
+export const closeClients = async () => {
+    await Promise.all(clients.splice(0).map(rpc => rpc.close()));
+};
+
+export const nextEvent = <K extends keyof WaxRpcEvents>(rpc: WebsocketJsonRpc, event: K): Promise<Parameters<WaxRpcEvents[K]>> => {
+    return new Promise(resolve => rpc.once(event, ((...args: any[]) => resolve(args as any)) as any));
+};
@@ -0,0 +1,161 @@
+import {
+    MetricsCollector,
+    MockWaxRpcServer,
+    RequestEndEvent,
+    SpanLike,
+    TracerLike,
+    TracingInstrumentation,
+    WaxRpcAbortedError,
+    WaxRpcTimeoutError,
+} from '../src';
+import { closeClients, createClient, nextEvent, wait } from './helpers';
+
+afterEach(closeClients);
+
+const ended = (method: string, duration: number, error: Error | null = null): RequestEndEvent => ({
+    requestId: `${method}-${duration}`,
+    method,
+    params: {},
+    endpoint: 'ws://mock',
+    startedAt: 0,
+    queueDepth: 0,
+    inFlight: 0,
+    duration,
+    error,
+});
+
+interface RecordedSpan {
+    name: string;
+    options: any;
+    attributes: { [key: string]: any };
+    status: { code: number, message?: string } | null;
+    exceptions: Error[];
+    endTime: number | undefined;
+}
+
+const recordingTracer = (): TracerLike & { spans: RecordedSpan[] } => {
+    const spans: RecordedSpan[] = [];
+    return {
+        spans,
+        startSpan: (name, options) => {
+            const span: RecordedSpan = { name, options, attributes: { ...options?.attributes }, status: null, exceptions: [], endTime: undefined };
+            spans.push(span);
+            const handle: SpanLike = {
+                setAttribute: (key, value) => { span.attributes[key] = value; },
+                setStatus: (status) => { span.status = status; },
+                recordException: (exception) => { span.exceptions.push(exception); },
+                end: (endTime) => { span.endTime = endTime; },
+            };
+            return handle;
+        },
+    };
+};
+
+describe('MetricsCollector', () => {
+    it('summarizes latency with nearest-rank percentiles', () => {
+        const metrics = new MetricsCollector();
+        for (let duration = 1; duration <= 100; duration++) metrics.onRequestEnd(ended('get_info', duration));
+
+        const { latency } = metrics.snapshot().methods.get_info;
+
+        expect(latency).toEqual({ count: 100, min: 1, max: 100, mean: 50.5, p50: 50, p90: 90, p95: 95, p99: 99 });
+        expect(metrics.percentile('get_info', 99)).toBe(99);
+        expect(metrics.percentile('get_block', 50)).toBeNull();
+    });
+
+    it('counts timeouts and aborts apart from the latency samples', () => {
+        const metrics = new MetricsCollector();
+        metrics.onRequestEnd(ended('get_info', 10));
+        metrics.onRequestEnd(ended('get_info', 20, new Error('boom')));
+        metrics.onRequestEnd(ended('get_info', 5000, new WaxRpcTimeoutError(5000)));
+        metrics.onRequestEnd(ended('get_info', 3, new WaxRpcAbortedError()));
+
+        expect(metrics.snapshot().methods.get_info).toMatchObject({ errors: 1, timeouts: 1, aborted: 1, latency: { count: 2, max: 20 } });
+    });
+
+    it('keeps only the most recent samples', () => {
+        const metrics = new MetricsCollector({ maxSamples: 3 });
+        [100, 1, 2, 3].forEach(duration => metrics.onRequestEnd(ended('get_info', duration)));
+
+        expect(metrics.snapshot().methods.get_info.latency).toMatchObject({ count: 3, max: 3 });
+    });
+
+    it('observes a client', async () => {
+        const server = new MockWaxRpcServer().reply('get_info', {});
+        const metrics = new MetricsCollector();
+        const rpc = createClient(server, { instrumentation: metrics, reconnectInterval: 5 });
+
+        await rpc.subscribeTrace('eosio.token::transfer', () => {}).ready;
+        await rpc.get_info();
+        server.pushActionTrace({
+            tx_id: 'tx', block_num: 7, block_time: '', cpu_usage_us: 0, net_usage: 0, receiver: 'eosio.token',
+            trace: { account: 'eosio.token', name: 'transfer', authorization: [], data: {} },
+        });
+        await wait(10);
+        server.disconnect();
+        await nextEvent(rpc, 'open');
+
+        const snapshot = metrics.snapshot();
+        expect(snapshot.methods.get_info.requests).toBe(1);
+        expect(snapshot.inFlight).toBe(0);
+        expect(snapshot.reconnects).toBe(1);
+        expect(snapshot.subscriptions['trace:eosio.token:transfer']).toMatchObject({ type: 'trace', messages: 1, lastBlock: 7 });
+
+        metrics.reset();
+        expect(metrics.snapshot()).toMatchObject({ methods: {}, subscriptions: {}, reconnects: 0 });
+    });
+});
+
+describe('TracingInstrumentation', () => {
+    it('wraps every call in a client span', async () => {
+        const server = new MockWaxRpcServer()
+            .reply('get_info', {})
+            .fail('get_block', { code: 3100002, name: 'unknown_block_exception', what: 'Could not find block' });
+        const tracer = recordingTracer();
+        const rpc = createClient(server, {}, 'ws://node.example:8080');
+        rpc.addInstrumentation(new TracingInstrumentation(tracer, { recordParams: true }));
+
+        await rpc.get_info();
+        await rpc.get_block(5).catch(() => {});
+
+        const [info, block] = tracer.spans;
+        expect(info.name).toBe('wax-ws-rpc/get_info');
+        expect(info.options.kind).toBe(2);
+        expect(info.attributes).toMatchObject({
+            'rpc.system': 'wax-ws-rpc',
+            'rpc.method': 'get_info',
+            'server.address': 'node.example',
+            'server.port': 8080,
+        });
+        expect(info.status).toEqual({ code: 1 });
+        expect(info.endTime).toBeGreaterThanOrEqual(info.options.startTime);
+
+        expect(block.attributes).toMatchObject({ 'wax.params': '{"block_num_or_id":5}', 'wax.error_code': 3100002 });
+        expect(block.status?.code).toBe(2);
+        expect(block.exceptions).toHaveLength(1);
+    });
+});
+
+describe('instrumentation hooks', () => {
+    it('reports a throwing hook through the error event', async () => {
+        const server = new MockWaxRpcServer().reply('get_info', {});
+        const rpc = createClient(server, {
+            instrumentation: { onRequestStart: () => { throw new Error('hook failed'); } },
+        });
+        const errors: Error[] = [];
+        rpc.on('error', error => errors.push(error));
+
+        await expect(rpc.get_info()).resolves.toEqual({});
+        expect(errors.map(error => error.message)).toContain('hook failed');
+    });
+
+    it('reports gauges through stats', async () => {
+        const server = new MockWaxRpcServer().hang('get_info');
+        const rpc = createClient(server);
+
+        rpc.get_info().catch(() => {});
+        await server.nextRequest('get_info');
+
+        expect(rpc.stats).toEqual({ state: 'open', endpoint: 'ws://mock', inFlight: 1, queued: 0, reconnectAttempts: 0, subscriptions: 0 });
+    });
+});
@@ -0,0 +1,112 @@
+import { LiveTable, LiveTableChange, MockWaxRpcServer, TableDelta, WaxRpcError } from '../src';
+import { closeClients, createClient, wait } from './helpers';
+
+afterEach(closeClients);
+
+interface Asset {
+    asset_id: string;
+    owner: string;
+}
+
+const delta = (action: TableDelta['action'], assetId: string, owner: string, scope: string = 'alice'): Omit<TableDelta<Asset>, 'type'> => ({
+    code: 'atomicassets',
+    scope,
+    table: 'assets',
+    primary_key: assetId,
+    payer: owner,
+    action,
+    data: action === 'ERASE' ? null : { asset_id: assetId, owner },
+    old_data: null,
+});
+
+describe('LiveTable', () => {
+    it('loads a snapshot page by page and applies deltas', async () => {
+        const server = new MockWaxRpcServer().reply('get_table_rows', (params: any) => params.lower_bound
+            ? { rows: [{ asset_id: '2', owner: 'alice' }], more: false, next_key: '' }
+            : { rows: [{ asset_id: '1', owner: 'alice' }], more: true, next_key: '2' });
+        const rpc = createClient(server);
+        const changes: LiveTableChange<Asset>[] = [];
+
+        const assets = new LiveTable<Asset>(rpc, { code: 'atomicassets', table: 'assets', scope: 'alice', primaryKey: 'asset_id', pageSize: 1 });
+        assets.on('change', change => changes.push(change));
+        await assets.ready;
+        expect(assets.rows().map(row => row.asset_id)).toEqual(['1', '2']);
+
+        server.pushTableDelta(delta('INSERT', '3', 'alice'));
+        server.pushTableDelta(delta('ERASE', '1', 'alice'));
+        await wait(10);
+
+        expect(assets.size).toBe(2);
+        expect(assets.get(3)).toEqual({ asset_id: '3', owner: 'alice' });
+        expect(changes.map(change => [change.action, change.key, change.oldRow?.asset_id ?? null])).toEqual([['INSERT', '3', null], ['ERASE', '1', '1']]);
+        await assets.close();
+    });
+
+    it('applies deltas that raced the snapshot after it loads', async () => {
+        let release: () => void = () => {};
+        const released = new Promise<void>(resolve => release = resolve);
+        const server = new MockWaxRpcServer().reply('get_table_rows', async () => {
+            await released;
+            return { rows: [{ asset_id: '1', owner: 'alice' }], more: false };
+        });
+        const rpc = createClient(server);
+
+        const assets = new LiveTable<Asset>(rpc, { code: 'atomicassets', table: 'assets', scope: 'alice', primaryKey: 'asset_id' });
+        await server.nextRequest('get_table_rows');
+        await wait(10);
+        server.pushTableDelta(delta('UPDATE', '1', 'bob'));
+        await wait(10);
+        expect(assets.size).toBe(0);
+
+        release();
+        await assets.ready;
+
+        expect(assets.get('1')).toEqual({ asset_id: '1', owner: 'bob' });
+        await assets.close();
+    });
+
+    it('mirrors every scope when none is given', async () => {
+        const server = new MockWaxRpcServer()
+            .reply('get_table_by_scope', { rows: [{ scope: 'alice' }, { scope: 'bob' }], more: '' })
+            .reply('get_table_rows', (params: any) => ({ rows: [{ asset_id: params.scope === 'alice' ? '1' : '2', owner: params.scope }], more: false }));
+        const rpc = createClient(server);
+
+        const assets = new LiveTable<Asset>(rpc, { code: 'atomicassets', table: 'assets', primaryKey: 'asset_id' });
+        await assets.ready;
+
+        expect(assets.rows().map(row => row.owner)).toEqual(['alice', 'bob']);
+        expect(assets.get('2', 'bob')).toEqual({ asset_id: '2', owner: 'bob' });
+        expect(() => assets.get('2')).toThrow('A scope is required when the table is mirrored across scopes');
+        await assets.close();
+    });
+
+    it('reloads the snapshot after a reconnect', async () => {
+        let owner = 'alice';
+        const server = new MockWaxRpcServer().reply('get_table_rows', () => ({ rows: [{ asset_id: '1', owner }], more: false }));
+        const rpc = createClient(server, { reconnectInterval: 5 });
+        const assets = new LiveTable<Asset>(rpc, { code: 'atomicassets', table: 'assets', scope: 'alice', primaryKey: 'asset_id' });
+        await assets.ready;
+
+        owner = 'bob';
+        const reloaded = new Promise(resolve => assets.once('reload', () => resolve(undefined)));
+        server.disconnect();
+        await reloaded;
+
+        expect(assets.get('1')).toEqual({ asset_id: '1', owner: 'bob' });
+        await assets.close();
+    });
+
+    it('rejects ready and emits error when the subscription fails', async () => {
+        const server = new MockWaxRpcServer()
+            .reply('get_table_rows', { rows: [], more: false })
+            .fail('subscribe_table', { what: 'table not found' });
+        const rpc = createClient(server);
+        const errors: Error[] = [];
+
+        const assets = new LiveTable<Asset>(rpc, { code: 'atomicassets', table: 'assets', scope: 'alice', autoStart: false });
+        assets.on('error', error => errors.push(error));
+
+        await expect(assets.start()).rejects.toBeInstanceOf(WaxRpcError);
+        expect(errors).toEqual([expect.any(WaxRpcError)]);
+    });
+});
@@ -0,0 +1,88 @@
+import { MockWaxRpcServer, TableDelta, WaxRpcError, WaxRpcTimeoutError } from '../src';
+import { closeClients, createClient, nextEvent, wait } from './helpers';
+
+afterEach(closeClients);
+
+const delta = (primaryKey: number): Omit<TableDelta, 'type'> => ({
+    code: 'eosio.token',
+    scope: 'alice',
+    table: 'accounts',
+    primary_key: primaryKey,
+    payer: 'alice',
+    action: 'INSERT',
+    data: { balance: '1.00000000 WAX' },
+    old_data: null,
+    block_num: 10,
+});
+
+describe('MockWaxRpcServer', () => {
+    it('answers with scripted results and records the requests', async () => {
+        const server = new MockWaxRpcServer()
+            .reply('get_info', { head_block_num: 1 })
+            .reply('get_account', (params: any) => ({ account_name: params.account_name }));
+        const rpc = createClient(server);
+
+        await expect(rpc.get_info()).resolves.toEqual({ head_block_num: 1 });
+        await expect(rpc.get_account('alice')).resolves.toEqual({ account_name: 'alice' });
+        expect(server.requests.map(request => request.method)).toEqual(['get_info', 'get_account']);
+        expect(server.requests[1]).toMatchObject({ params: { account_name: 'alice' }, endpoint: 'ws://mock' });
+    });
+
+    it('sends scripted errors shaped like nodeos errors', async () => {
+        const server = new MockWaxRpcServer()
+            .fail('get_block', { code: 3100002, name: 'unknown_block_exception', message: 'Could not find block' });
+        const rpc = createClient(server);
+
+        const error = await rpc.get_block(99).catch(e => e);
+
+        expect(error).toBeInstanceOf(WaxRpcError);
+        expect(error.json.error).toMatchObject({ code: 3100002, name: 'unknown_block_exception' });
+    });
+
+    it('lets requests time out when told to hang', async () => {
+        const server = new MockWaxRpcServer().hang('get_abi');
+        const rpc = createClient(server, { requestTimeOut: 30 });
+
+        await expect(rpc.get_abi('eosio')).rejects.toBeInstanceOf(WaxRpcTimeoutError);
+    });
+
+    it('pushes table deltas to subscribers', async () => {
+        const server = new MockWaxRpcServer();
+        const rpc = createClient(server);
+        const received: TableDelta[] = [];
+
+        await rpc.subscribeTable('eosio.token', 'alice', 'accounts', data => received.push(data)).ready;
+        server.pushTableDelta(delta(1));
+        await wait(10);
+
+        expect(received).toEqual([expect.objectContaining({ type: 'table_delta', primary_key: 1 })]);
+    });
+
+    it('drops connections and refuses new ones until accepting again', async () => {
+        const server = new MockWaxRpcServer().reply('get_info', {});
+        const rpc = createClient(server, { reconnectInterval: 10 });
+        await rpc.get_info();
+        expect(server.connections).toBe(1);
+
+        server.refuse();
+        server.disconnect();
+        await nextEvent(rpc, 'close');
+        await wait(30);
+        expect(server.connections).toBe(0);
+
+        server.accept();
+        await expect(rpc.get_info()).resolves.toEqual({});
+        expect(server.connections).toBe(1);
+    });
+
+    it('delays every frame by the configured latency', async () => {
+        const server = new MockWaxRpcServer().reply('get_info', {});
+        server.latency = 40;
+        const rpc = createClient(server);
+
+        const started = Date.now();
+        await rpc.get_info();
+
+        expect(Date.now() - started).toBeGreaterThanOrEqual(80);
+    });
+});
@@ -0,0 +1,171 @@
+import { BackoffRetryPolicy, MockWaxRpcServer, WaxConnectionClosedError, WaxRpcAbortedError, WaxRpcTimeoutError } from '../src';
+import { closeClients, createClient, nextEvent, wait } from './helpers';
+
+afterEach(closeClients);
+
+describe('BackoffRetryPolicy', () => {
+    it('backs off exponentially up to maxDelay and stops after maxRetries', () => {
+        const policy = new BackoffRetryPolicy({ initialDelay: 100, maxDelay: 500, jitter: 0, maxRetries: 4 });
+
+        expect([1, 2, 3, 4, 5].map(attempt => policy.reconnectDelay(attempt))).toEqual([100, 200, 400, 500, null]);
+        expect(new BackoffRetryPolicy({ maxRetries: 'infinite' }).reconnectDelay(1000)).not.toBeNull();
+    });
+
+    it('keeps jittered delays within the jitter fraction', () => {
+        const policy = new BackoffRetryPolicy({ initialDelay: 1000, jitter: 0.5 });
+
+        for (let i = 0; i < 20; i++) {
+            const delay = policy.reconnectDelay(1)!;
+            expect(delay).toBeGreaterThanOrEqual(500);
+            expect(delay).toBeLessThanOrEqual(1000);
+        }
+    });
+
+    it('retries reads only, up to requestRetries', () => {
+        const policy = new BackoffRetryPolicy({ initialDelay: 10, jitter: 0, requestRetries: 1 });
+        const timeout = new WaxRpcTimeoutError(100);
+
+        expect(policy.requestRetryDelay('get_info', 1, timeout)).toBe(10);
+        expect(policy.requestRetryDelay('get_info', 2, timeout)).toBeNull();
+        expect(policy.requestRetryDelay('abi_json_to_bin', 1, timeout)).toBeNull();
+        expect(new BackoffRetryPolicy({ retryMethods: ['abi_json_to_bin'] }).requestRetryDelay('abi_json_to_bin', 1, timeout)).not.toBeNull();
+    });
+});
+
+describe('reconnect', () => {
+    it('reconnects after the node drops the connection', async () => {
+        const server = new MockWaxRpcServer().reply('get_info', { head_block_num: 1 });
+        const rpc = createClient(server, { reconnectInterval: 10 });
+        const reconnecting = jest.fn();
+        rpc.on('reconnecting', reconnecting);
+
+        await rpc.get_info();
+        server.disconnect();
+        await nextEvent(rpc, 'close');
+
+        await expect(rpc.get_info()).resolves.toEqual({ head_block_num: 1 });
+        expect(reconnecting).toHaveBeenCalledWith(1, 10, 10);
+        expect(server.handshakes).toHaveLength(2);
+        expect(rpc.state).toBe('open');
+    });
+
+    it('gives up after maxRetries and rejects queued requests', async () => {
+        const server = new MockWaxRpcServer();
+        server.refuse();
+        const rpc = createClient(server, { reconnectInterval: 5, maxRetries: 2 });
+        const failed = jest.fn();
+        rpc.on('reconnect_failed', failed);
+
+        await expect(rpc.get_info()).rejects.toThrow(new WaxConnectionClosedError("Reconnect failed"));
+        expect(failed).toHaveBeenCalledTimes(1);
+        expect(server.handshakes).toHaveLength(3);
+    });
+
+    it('keeps to the backoff when requests arrive while reconnecting', async () => {
+        const server = new MockWaxRpcServer().reply('get_info', {});
+        const rpc = createClient(server, {
+            retryPolicy: new BackoffRetryPolicy({ initialDelay: 5000, maxRetries: 5, jitter: 0 }),
+        });
+
+        await rpc.get_info();
+        server.refuse();
+        server.disconnect();
+        await nextEvent(rpc, 'close');
+
+        for (let i = 0; i < 3; i++) {
+            rpc.get_info().catch(() => {});
+            await wait(20);
+        }
+
+        expect(server.handshakes).toHaveLength(1);
+        expect(rpc.stats).toMatchObject({ state: 'reconnecting', reconnectAttempts: 1, queued: 3 });
+    });
+});
+
+describe('failover', () => {
+    it('moves to the next endpoint when one refuses connections', async () => {
+        const server = new MockWaxRpcServer().reply('get_info', { head_block_num: 1 });
+        server.refuse('ws://a');
+        const rpc = createClient(server, { reconnectInterval: 5 }, ['ws://a', 'ws://b']);
+        const changed = jest.fn();
+        rpc.on('endpoint_changed', changed);
+
+        await expect(rpc.get_info()).resolves.toEqual({ head_block_num: 1 });
+        expect(rpc.endpoint).toBe('ws://b');
+        expect(changed).toHaveBeenCalledWith('ws://b', 'ws://a');
+        expect(server.requests.map(request => request.endpoint)).toEqual(['ws://b']);
+    });
+
+    it('moves to the next endpoint after failoverThreshold timeouts in a row', async () => {
+        const server = new MockWaxRpcServer();
+        server.reply('get_info', (params, request) => request.endpoint === 'ws://a' ? new Promise(() => {}) : { ok: 1 });
+        const rpc = createClient(server, { requestTimeOut: 20, failoverThreshold: 2, reconnectInterval: 5 }, ['ws://a', 'ws://b']);
+
+        await expect(rpc.get_info()).rejects.toThrow('Request Timeout');
+        await expect(rpc.get_info()).rejects.toThrow('Request Timeout');
+        await expect(rpc.get_info()).resolves.toEqual({ ok: 1 });
+
+        expect(rpc.endpoint).toBe('ws://b');
+        expect(rpc.getEndpointHealth().find(health => health.url === 'ws://a')!.failures).toBeGreaterThanOrEqual(2);
+    });
+
+    it('moves pending requests to the new socket', async () => {
+        const server = new MockWaxRpcServer();
+        let answer = false;
+        server.reply('get_block', () => answer ? { id: 'b' } : new Promise(() => {}));
+        const rpc = createClient(server, { reconnectInterval: 5 });
+
+        const block = rpc.get_block(1);
+        await server.nextRequest('get_block');
+        answer = true;
+        server.disconnect();
+
+        await expect(block).resolves.toEqual({ id: 'b' });
+        expect(server.requests.filter(request => request.method === 'get_block')).toHaveLength(2);
+    });
+});
+
+describe('request retries', () => {
+    it('retries a read that timed out', async () => {
+        const server = new MockWaxRpcServer();
+        let attempts = 0;
+        server.reply('get_info', () => ++attempts === 1 ? new Promise(() => {}) : { head_block_num: 1 });
+        const rpc = createClient(server, {
+            requestTimeOut: 20,
+            retryPolicy: new BackoffRetryPolicy({ initialDelay: 10, jitter: 0 }),
+        });
+
+        await expect(rpc.get_info()).resolves.toEqual({ head_block_num: 1 });
+        expect(attempts).toBe(2);
+    });
+
+    it('never retries a push', async () => {
+        const server = new MockWaxRpcServer().hang('send_transaction');
+        const rpc = createClient(server, {
+            requestTimeOut: 20,
+            retryPolicy: new BackoffRetryPolicy({ initialDelay: 10, jitter: 0, retryMethods: () => true }),
+        });
+
+        await expect(rpc.call('send_transaction', {})).rejects.toBeInstanceOf(WaxRpcTimeoutError);
+        expect(server.requests.filter(request => request.method === 'send_transaction')).toHaveLength(1);
+    });
+
+    it('stops waiting for the next attempt when aborted', async () => {
+        const server = new MockWaxRpcServer().hang('get_info');
+        const rpc = createClient(server, {
+            requestTimeOut: 20,
+            retryPolicy: new BackoffRetryPolicy({ initialDelay: 5000, jitter: 0 }),
+        });
+        const controller = new AbortController();
+
+        const info = rpc.call('get_info', {}, { signal: controller.signal });
+        await server.nextRequest('get_info');
+        await wait(40);
+        const started = Date.now();
+        controller.abort();
+
+        await expect(info).rejects.toBeInstanceOf(WaxRpcAbortedError);
+        expect(Date.now() - started).toBeLessThan(1000);
+        expect(server.requests).toHaveLength(1);
+    });
+});
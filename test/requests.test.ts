@@ -0,0 +1,150 @@
+import { MockWaxRpcServer, TransportOpenOptions, TransportSocket, WaxConnectionClosedError, WaxRpcAbortedError, WaxRpcError } from '../src';
+import { closeClients, createClient, wait } from './helpers';
+
+afterEach(closeClients);
+
+// Records every frame the client sends, so tests can see how requests were packed.
+const recordFrames = (server: MockWaxRpcServer, frames: any[]) => ({
+    open: (endpoint: string, options: TransportOpenOptions) => {
+        const socket: TransportSocket = server.open(endpoint, options);
+        const send = socket.send.bind(socket);
+        socket.send = (data: any) => {
+            frames.push(JSON.parse(data));
+            send(data);
+        };
+        return socket;
+    },
+});
+
+describe('closing and aborting', () => {
+    it('rejects requests awaiting a reply when the client closes', async () => {
+        const server = new MockWaxRpcServer().hang('get_block');
+        const rpc = createClient(server);
+
+        const block = expect(rpc.get_block(1)).rejects.toThrow(new WaxConnectionClosedError("Client closed"));
+        await server.nextRequest('get_block');
+        await rpc.close();
+        await block;
+    });
+
+    it('rejects queued requests when the client closes', async () => {
+        const server = new MockWaxRpcServer();
+        server.refuse();
+        const rpc = createClient(server, { reconnectInterval: 1000 });
+
+        const info = expect(rpc.get_info()).rejects.toBeInstanceOf(WaxConnectionClosedError);
+        await wait(10);
+        await rpc.close();
+
+        await info;
+        await expect(rpc.get_info()).rejects.toThrow("Client closed");
+    });
+
+    it('rejects an aborted request and frees its in-flight slot', async () => {
+        const server = new MockWaxRpcServer().hang('get_block');
+        const rpc = createClient(server);
+        const controller = new AbortController();
+
+        const block = rpc.call('get_block', { block_num_or_id: 1 }, { signal: controller.signal });
+        await server.nextRequest('get_block');
+        controller.abort();
+
+        await expect(block).rejects.toBeInstanceOf(WaxRpcAbortedError);
+        expect(rpc.stats.inFlight).toBe(0);
+    });
+
+    it('rejects at once when the signal is already aborted', async () => {
+        const server = new MockWaxRpcServer().reply('get_info', {});
+        const rpc = createClient(server);
+        const controller = new AbortController();
+        controller.abort();
+
+        await expect(rpc.call('get_info', {}, { signal: controller.signal })).rejects.toThrow("Request Aborted");
+        expect(server.requests).toHaveLength(0);
+    });
+
+    it('removes all listeners on dispose', async () => {
+        const server = new MockWaxRpcServer().reply('get_info', {});
+        const rpc = createClient(server);
+        rpc.on('open', () => {});
+        await rpc.get_info();
+
+        await rpc.dispose();
+
+        expect(rpc.listenerCount('open')).toBe(0);
+        expect(rpc.state).toBe('closed');
+        expect(server.connections).toBe(0);
+    });
+});
+
+describe('batching', () => {
+    it('packs requests into frames of maxBatchSize and settles each one', async () => {
+        const server = new MockWaxRpcServer()
+            .reply('get_info', {})
+            .reply('get_block', (params: any) => ({ block_num: params.block_num_or_id }))
+            .fail('get_account', { what: 'unknown key' });
+
+        const frames: any[] = [];
+        const rpc = createClient(server, { transport: recordFrames(server, frames), batchRequests: true, maxBatchSize: 3 });
+        await rpc.get_info();
+        frames.length = 0;
+
+        const results = await rpc.batch([
+            { method: 'get_block', params: { block_num_or_id: 1 } },
+            { method: 'get_block', params: { block_num_or_id: 2 } },
+            { method: 'get_account', params: { account_name: 'nobody' } },
+            { method: 'get_block', params: { block_num_or_id: 3 } },
+        ]);
+
+        expect(frames.map(frame => Array.isArray(frame) ? frame.length : 1)).toEqual([3, 1]);
+        expect(results[0]).toEqual({ status: 'fulfilled', value: { block_num: 1 } });
+        expect(results[3]).toEqual({ status: 'fulfilled', value: { block_num: 3 } });
+        expect(results[2].status).toBe('rejected');
+        expect((results[2] as PromiseRejectedResult).reason).toBeInstanceOf(WaxRpcError);
+    });
+
+    it('collects calls made in the same tick when autoBatch is on', async () => {
+        const server = new MockWaxRpcServer().reply('get_info', {});
+        const frames: any[] = [];
+        const rpc = createClient(server, { transport: recordFrames(server, frames), batchRequests: true, autoBatch: true });
+        await rpc.get_info();
+        frames.length = 0;
+
+        await Promise.all([rpc.get_info(), rpc.get_info()]);
+        await rpc.get_info();
+
+        expect(frames.map(frame => Array.isArray(frame) ? frame.length : 1)).toEqual([2, 1]);
+    });
+
+    it('holds calls back once maxInFlight requests await a reply', async () => {
+        let release: () => void = () => {};
+        const released = new Promise<void>(resolve => release = resolve);
+        const server = new MockWaxRpcServer().reply('get_info', async () => {
+            await released;
+            return {};
+        });
+        const rpc = createClient(server, { maxInFlight: 2 });
+
+        const calls = Promise.all([rpc.get_info(), rpc.get_info(), rpc.get_info()]);
+        await wait(20);
+        expect(rpc.stats).toMatchObject({ inFlight: 2, queued: 1 });
+        expect(server.requests).toHaveLength(2);
+
+        release();
+        await calls;
+        expect(server.requests).toHaveLength(3);
+    });
+
+    it('sends batched calls one frame each when the node cannot take arrays', async () => {
+        const server = new MockWaxRpcServer().reply('get_info', {});
+        const frames: any[] = [];
+        const rpc = createClient(server, { transport: recordFrames(server, frames) });
+        await rpc.get_info();
+        frames.length = 0;
+
+        await rpc.batch([{ method: 'get_info' }, { method: 'get_info' }]);
+
+        expect(frames.every(frame => !Array.isArray(frame))).toBe(true);
+        expect(frames).toHaveLength(2);
+    });
+});
@@ -0,0 +1,114 @@
+import { MockWaxRpcServer, ResponseCache } from '../src';
+import { closeClients, createClient, wait } from './helpers';
+
+afterEach(closeClients);
+
+describe('ResponseCache', () => {
+    it('keys params independently of property order', () => {
+        const cache = new ResponseCache();
+
+        expect(cache.key('get_table_rows', { code: 'a', scope: 'b' })).toBe(cache.key('get_table_rows', { scope: 'b', code: 'a' }));
+        expect(cache.handles('get_abi')).toBe(true);
+        expect(cache.handles('get_info')).toBe(false);
+    });
+
+    it('serves cached values until the TTL runs out', async () => {
+        const cache = new ResponseCache({ ttl: { get_producers: 30 } });
+        const load = jest.fn(async () => ({ rows: [] }));
+
+        await cache.fetch('get_producers', {}, load);
+        await cache.fetch('get_producers', {}, load);
+        expect(load).toHaveBeenCalledTimes(1);
+
+        await wait(40);
+        await cache.fetch('get_producers', {}, load);
+        expect(load).toHaveBeenCalledTimes(2);
+    });
+
+    it('shares one load between overlapping calls', async () => {
+        const cache = new ResponseCache();
+        let calls = 0;
+        const load = () => new Promise(resolve => setTimeout(() => resolve(++calls), 10));
+
+        const results = await Promise.all([cache.fetch('get_abi', { account_name: 'a' }, load), cache.fetch('get_abi', { account_name: 'a' }, load)]);
+
+        expect(results).toEqual([1, 1]);
+    });
+
+    it('does not store a value loaded across an invalidation', async () => {
+        const cache = new ResponseCache();
+        let calls = 0;
+        const load = () => new Promise(resolve => setTimeout(() => resolve(++calls), 10));
+
+        const stale = cache.fetch('get_abi', { account_name: 'a' }, load);
+        await cache.invalidate();
+        await stale;
+
+        await expect(cache.fetch('get_abi', { account_name: 'a' }, load)).resolves.toBe(2);
+    });
+
+    it('invalidates by method, params or account', async () => {
+        const cache = new ResponseCache({ ttl: { get_abi: 60000, get_code: 60000, get_producers: 60000 } });
+        const load = jest.fn(async () => 'value');
+        const fill = () => Promise.all([
+            cache.fetch('get_abi', { account_name: 'a' }, load),
+            cache.fetch('get_code', { account_name: 'a' }, load),
+            cache.fetch('get_abi', { account_name: 'b' }, load),
+            cache.fetch('get_producers', { limit: 10 }, load),
+        ]);
+        await fill();
+        expect(load).toHaveBeenCalledTimes(4);
+
+        await cache.invalidateAccount('a');
+        await fill();
+        expect(load).toHaveBeenCalledTimes(6);
+
+        await cache.invalidate('get_producers', { limit: 10 });
+        await cache.invalidate('get_abi');
+        await fill();
+        expect(load).toHaveBeenCalledTimes(9);
+    });
+});
+
+describe('client cache', () => {
+    it('answers repeated ABI calls from the cache', async () => {
+        const server = new MockWaxRpcServer().reply('get_abi', { account_name: 'eosio', abi: {} });
+        const rpc = createClient(server, { cache: true });
+
+        await rpc.get_abi('eosio');
+        await rpc.get_abi('eosio');
+
+        expect(server.requests.filter(request => request.method === 'get_abi')).toHaveLength(1);
+    });
+
+    it('drops cached ABIs when a setabi trace arrives', async () => {
+        const server = new MockWaxRpcServer().reply('get_abi', { account_name: 'eosio.token', abi: {} });
+        const rpc = createClient(server, { cache: { watchAbiChanges: true } });
+
+        await rpc.get_abi('eosio.token');
+        server.pushActionTrace({
+            tx_id: 'tx', block_num: 10, block_time: '', cpu_usage_us: 0, net_usage: 0, receiver: 'eosio',
+            trace: { account: 'eosio', name: 'setabi', authorization: [], data: { account: 'eosio.token', abi: '' } },
+        });
+        await wait(10);
+        await rpc.get_abi('eosio.token');
+
+        expect(server.requests.filter(request => request.method === 'get_abi')).toHaveLength(2);
+    });
+
+    it('registers the setabi watch without connecting when autoConnect is off', async () => {
+        const server = new MockWaxRpcServer();
+        const rpc = createClient(server, { autoConnect: false, cache: { watchAbiChanges: true } });
+        await wait(10);
+
+        expect(rpc.state).toBe('idle');
+        expect(server.handshakes).toHaveLength(0);
+
+        await rpc.connect();
+        await wait(10);
+        expect(server.requests).toEqual([expect.objectContaining({
+            method: 'subscribe_trace',
+            params: expect.objectContaining({ code: 'eosio', action: 'setabi' }),
+        })]);
+    });
+});
@@ -0,0 +1,102 @@
+import { ActionTrace, MockWaxRpcServer, WaxConnectionClosedError, WaxStreamOverflowError } from '../src';
+import { closeClients, createClient, wait } from './helpers';
+
+afterEach(closeClients);
+
+const transfer = (blockNum: number): Omit<ActionTrace, 'type'> => ({
+    tx_id: `tx${blockNum}`,
+    block_num: blockNum,
+    block_time: '2024-01-01T00:00:00.000',
+    cpu_usage_us: 100,
+    net_usage: 128,
+    receiver: 'eosio.token',
+    trace: { account: 'eosio.token', name: 'transfer', authorization: [], data: {} },
+});
+
+describe('SubscriptionStream', () => {
+    it('yields pushed items and unsubscribes when the loop ends', async () => {
+        const server = new MockWaxRpcServer();
+        const rpc = createClient(server);
+        const stream = rpc.traces('eosio.token::transfer');
+        const received: string[] = [];
+
+        await stream.ready;
+        server.pushActionTrace(transfer(1));
+        server.pushActionTrace(transfer(2));
+
+        for await (const trace of stream) {
+            received.push(trace.tx_id);
+            if (received.length === 2) break;
+        }
+        await wait(10);
+
+        expect(received).toEqual(['tx1', 'tx2']);
+        expect(server.requests.map(request => request.method)).toEqual(['subscribe_trace', 'unsubscribe_trace']);
+    });
+
+    it('drops the oldest or newest items when the buffer is full', async () => {
+        const server = new MockWaxRpcServer();
+        const rpc = createClient(server);
+        const oldest = rpc.traces('eosio.token::transfer', {}, { bufferSize: 2 });
+        const newest = rpc.traces('eosio.token::transfer', {}, { bufferSize: 2, overflow: 'drop-newest' });
+
+        await Promise.all([oldest.ready, newest.ready]);
+        [1, 2, 3].forEach(blockNum => server.pushActionTrace(transfer(blockNum)));
+        await wait(10);
+
+        expect([(await oldest.next()).value.tx_id, (await oldest.next()).value.tx_id]).toEqual(['tx2', 'tx3']);
+        expect([(await newest.next()).value.tx_id, (await newest.next()).value.tx_id]).toEqual(['tx1', 'tx2']);
+        expect([oldest.dropped, newest.dropped]).toEqual([1, 1]);
+    });
+
+    it('throws after the buffered items when told to error on overflow', async () => {
+        const server = new MockWaxRpcServer();
+        const rpc = createClient(server);
+        const stream = rpc.traces('eosio.token::transfer', {}, { bufferSize: 1, overflow: 'error' });
+
+        await stream.ready;
+        server.pushActionTrace(transfer(1));
+        server.pushActionTrace(transfer(2));
+        await wait(10);
+
+        expect((await stream.next()).value.tx_id).toBe('tx1');
+        await expect(stream.next()).rejects.toBeInstanceOf(WaxStreamOverflowError);
+        await expect(stream.next()).resolves.toEqual({ value: undefined, done: true });
+    });
+
+    it('ends a waiting loop when the client closes', async () => {
+        const server = new MockWaxRpcServer();
+        const rpc = createClient(server);
+        const stream = rpc.traces('eosio.token::transfer');
+        const onError = jest.fn();
+        rpc.on('error', onError);
+
+        await stream.ready;
+        const loop = (async () => {
+            for await (const trace of stream) void trace;
+        })();
+        const ended = expect(loop).rejects.toBeInstanceOf(WaxConnectionClosedError);
+        await rpc.close();
+
+        await ended;
+        expect(onError).not.toHaveBeenCalled();
+    });
+});
+
+describe('subscription callbacks', () => {
+    it('reports a throwing callback without stopping the others', async () => {
+        const server = new MockWaxRpcServer();
+        const rpc = createClient(server);
+        const errors: Error[] = [];
+        const received = jest.fn();
+        rpc.on('error', error => errors.push(error));
+
+        await rpc.subscribeTrace('eosio.token::transfer', () => { throw new Error('callback failed'); }).ready;
+        await rpc.subscribeTrace('eosio.token::transfer', received).ready;
+        server.pushActionTrace(transfer(1));
+        await wait(10);
+
+        expect(errors.map(error => error.message)).toEqual(['callback failed']);
+        expect(received).toHaveBeenCalledTimes(1);
+    });
+});
@@ -0,0 +1,148 @@
+import { ActionTrace, MockWaxRpcServer, WaxConnectionClosedError, WaxRpcError } from '../src';
+import { closeClients, createClient, nextEvent, wait } from './helpers';
+
+afterEach(closeClients);
+
+const transfer = (blockNum: number): Omit<ActionTrace, 'type'> => ({
+    tx_id: `tx${blockNum}`,
+    block_num: blockNum,
+    block_time: '2024-01-01T00:00:00.000',
+    cpu_usage_us: 100,
+    net_usage: 128,
+    receiver: 'eosio.token',
+    trace: {
+        account: 'eosio.token',
+        name: 'transfer',
+        authorization: [{ actor: 'alice', permission: 'active' }],
+        data: { from: 'alice', to: 'bob', quantity: '1.00000000 WAX', memo: '' },
+    },
+});
+
+describe('subscribing', () => {
+    it('resolves ready on the ack and delivers pushes', async () => {
+        const server = new MockWaxRpcServer();
+        const rpc = createClient(server);
+        const received: ActionTrace[] = [];
+
+        const subscription = rpc.subscribeTrace('eosio.token::transfer', trace => received.push(trace));
+        await subscription.ready;
+        server.pushActionTrace(transfer(10));
+        await wait(10);
+
+        expect(received.map(trace => trace.tx_id)).toEqual(['tx10']);
+        expect(subscription.lastBlock).toBe(10);
+        expect(server.requests[0]).toMatchObject({ method: 'subscribe_trace', params: { code: 'eosio.token', action: 'transfer' } });
+    });
+
+    it('rejects ready and calls onError when the node refuses the subscription', async () => {
+        const server = new MockWaxRpcServer().fail('subscribe_table', { what: 'table not found' });
+        const rpc = createClient(server);
+        const onError = jest.fn();
+
+        const subscription = rpc.subscribeTable('eosio.token', 'alice', 'nosuchtable', () => {});
+        subscription.onError(onError);
+
+        await expect(subscription.ready).rejects.toBeInstanceOf(WaxRpcError);
+        expect(onError).toHaveBeenCalledWith(expect.any(WaxRpcError));
+    });
+
+    it('shares one server subscription between listeners', async () => {
+        const server = new MockWaxRpcServer();
+        const rpc = createClient(server);
+        const first = jest.fn();
+        const second = jest.fn();
+
+        await rpc.subscribeTrace('eosio.token::transfer', first).ready;
+        await rpc.subscribeTrace('eosio.token::transfer', second).ready;
+        server.pushActionTrace(transfer(10));
+        await wait(10);
+
+        expect(server.requests.filter(request => request.method === 'subscribe_trace')).toHaveLength(1);
+        expect(first).toHaveBeenCalledTimes(1);
+        expect(second).toHaveBeenCalledTimes(1);
+    });
+
+    it('rejects ready when the last listener unsubscribes before the ack', async () => {
+        const server = new MockWaxRpcServer().hang('subscribe_trace');
+        const rpc = createClient(server);
+
+        const subscription = rpc.subscribeTrace('eosio.token::transfer', () => {});
+        await server.nextRequest('subscribe_trace');
+        const ready = expect(subscription.ready).rejects.toThrow(new WaxConnectionClosedError('Unsubscribed'));
+        subscription.unsubscribe().catch(() => {});
+
+        await ready;
+    });
+});
+
+describe('resuming', () => {
+    it('resubscribes from the block after the last one seen', async () => {
+        const server = new MockWaxRpcServer();
+        const rpc = createClient(server, { reconnectInterval: 5 });
+        const onGap = jest.fn();
+        const onResubscribed = jest.fn();
+
+        const subscription = rpc.subscribeTrace('eosio.token::transfer', () => {})
+            .onResubscribed(onResubscribed)
+            .onGap(onGap);
+        await subscription.ready;
+        server.pushActionTrace(transfer(100));
+        await wait(10);
+
+        server.disconnect();
+        const request = await server.nextRequest('subscribe_trace');
+        await wait(10);
+
+        expect(request.params.start_block).toBe(101);
+        expect(onResubscribed).toHaveBeenCalledTimes(1);
+        expect(onGap).not.toHaveBeenCalled();
+    });
+
+    it('resubscribes from scratch when resuming is off', async () => {
+        const server = new MockWaxRpcServer();
+        const rpc = createClient(server, { reconnectInterval: 5, resumeSubscriptions: false });
+
+        await rpc.subscribeTrace('eosio.token::transfer', () => {}).ready;
+        server.pushActionTrace(transfer(100));
+        await wait(10);
+
+        server.disconnect();
+        const request = await server.nextRequest('subscribe_trace');
+
+        expect(request.params.start_block).toBeUndefined();
+    });
+
+    it('reports a gap when the node resumes later than asked', async () => {
+        const server = new MockWaxRpcServer()
+            .reply('subscribe_trace', (params: any) => ({ start_block: params?.start_block ? 150 : undefined }));
+        const rpc = createClient(server, { reconnectInterval: 5 });
+        const onGap = jest.fn();
+
+        const subscription = rpc.subscribeTrace('eosio.token::transfer', () => {}).onGap(onGap);
+        await subscription.ready;
+        server.pushActionTrace(transfer(100));
+        await wait(10);
+
+        server.disconnect();
+        const [gap] = await nextEvent(rpc, 'gap');
+
+        expect(gap).toMatchObject({ type: 'trace', fromBlock: 101, toBlock: 149 });
+        expect(onGap).toHaveBeenCalledWith(gap);
+    });
+
+    it('ends the gap at the head block when the ack has no start_block', async () => {
+        const server = new MockWaxRpcServer()
+            .reply('subscribe_trace', {})
+            .reply('get_info', { head_block_num: 180 });
+        const rpc = createClient(server, { reconnectInterval: 5 });
+
+        await rpc.subscribeTrace('eosio.token::transfer', () => {}).ready;
+        server.pushActionTrace(transfer(100));
+        await wait(10);
+
+        server.disconnect();
+        const [gap] = await nextEvent(rpc, 'gap');
+
+        expect(gap).toMatchObject({ fromBlock: 101, toBlock: 180 });
+    });
+});
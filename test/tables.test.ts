@@ -0,0 +1,68 @@
+import { MockWaxRpcServer } from '../src';
+import { closeClients, createClient } from './helpers';
+
+afterEach(closeClients);
+
+const collect = async <T>(rows: AsyncIterable<T>): Promise<T[]> => {
+    const result: T[] = [];
+    for await (const row of rows) result.push(row);
+    return result;
+};
+
+// Serves rows with ids 1..total a page at a time, the way nodeos pages with next_key.
+const pagedRows = (total: number) => (params: any) => {
+    const from = params.reverse ? 1 : Number(params.lower_bound || 1);
+    const to = params.reverse ? Number(params.upper_bound || total) : total;
+    const ids = Array.from({ length: to - from + 1 }, (_, i) => from + i);
+    const page = params.reverse ? ids.reverse().slice(0, params.limit) : ids.slice(0, params.limit);
+    const last = page[page.length - 1];
+    const more = params.reverse ? last > from : last < to;
+
+    return { rows: page.map(id => ({ id })), more, next_key: more ? String(params.reverse ? last - 1 : last + 1) : '' };
+};
+
+describe('iterateTableRows', () => {
+    it('follows next_key across pages', async () => {
+        const server = new MockWaxRpcServer().reply('get_table_rows', pagedRows(5));
+        const rpc = createClient(server);
+
+        const rows = await collect(rpc.iterateTableRows<{ id: number }>({ code: 'c', scope: 's', table: 't', limit: 2 }));
+
+        expect(rows.map(row => row.id)).toEqual([1, 2, 3, 4, 5]);
+        expect(server.requests.map(request => request.params.lower_bound)).toEqual(['', '3', '5']);
+    });
+
+    it('moves the upper bound when reading in reverse', async () => {
+        const server = new MockWaxRpcServer().reply('get_table_rows', pagedRows(5));
+        const rpc = createClient(server);
+
+        const rows = await collect(rpc.iterateTableRows<{ id: number }>({ code: 'c', scope: 's', table: 't', limit: 2, reverse: true }));
+
+        expect(rows.map(row => row.id)).toEqual([5, 4, 3, 2, 1]);
+        expect(server.requests.map(request => request.params.upper_bound)).toEqual(['', '3', '1']);
+    });
+
+    it('stops at maxRows and shrinks the last page', async () => {
+        const server = new MockWaxRpcServer().reply('get_table_rows', pagedRows(10));
+        const rpc = createClient(server);
+
+        const rows = await collect(rpc.iterateTableRows({ code: 'c', scope: 's', table: 't', limit: 2 }, { maxRows: 3 }));
+
+        expect(rows).toHaveLength(3);
+        expect(server.requests.map(request => request.params.limit)).toEqual([2, 1]);
+    });
+});
+
+describe('iterateScopes', () => {
+    it('continues from the scope given in more', async () => {
+        const server = new MockWaxRpcServer().reply('get_table_by_scope', (params: any) => params.lower_bound === 'carol'
+            ? { rows: [{ code: 'c', scope: 'carol', table: 't', payer: 'carol', count: 1 }], more: '' }
+            : { rows: [{ code: 'c', scope: 'alice', table: 't', payer: 'alice', count: 1 }, { code: 'c', scope: 'bob', table: 't', payer: 'bob', count: 2 }], more: 'carol' });
+        const rpc = createClient(server);
+
+        const scopes = await collect(rpc.iterateScopes({ code: 'c', table: 't', limit: 2 }));
+
+        expect(scopes.map(row => row.scope)).toEqual(['alice', 'bob', 'carol']);
+        expect(server.requests.map(request => request.params.lower_bound)).toEqual(['', 'carol']);
+    });
+});
@@ -0,0 +1,67 @@
+import { MockWaxRpcServer, WaxQueueOverflowError, WaxRpcTimeoutError } from '../src';
+import { closeClients, createClient, wait } from './helpers';
+
+afterEach(closeClients);
+
+describe('timeouts and priorities', () => {
+    it('times out queued requests with the per-call or per-method timeout', async () => {
+        const server = new MockWaxRpcServer();
+        server.refuse();
+        const rpc = createClient(server, { methodTimeouts: { get_block: 60 }, requestTimeOut: 5000, reconnectInterval: 20 });
+
+        const started = Date.now();
+        await expect(rpc.call('get_info', {}, { timeout: 30 })).rejects.toMatchObject({ name: 'WaxRpcTimeoutError', timeout: 30 });
+        await expect(rpc.get_block(1)).rejects.toMatchObject({ name: 'WaxRpcTimeoutError', timeout: 60 });
+        expect(Date.now() - started).toBeLessThan(1000);
+    });
+
+    it('gives up at the deadline', async () => {
+        const server = new MockWaxRpcServer().hang('get_info');
+        const rpc = createClient(server, { requestTimeOut: 5000 });
+
+        const error = await rpc.call('get_info', {}, { deadline: Date.now() + 50 }).catch(e => e);
+        expect(error).toBeInstanceOf(WaxRpcTimeoutError);
+        expect(error.timeout).toBeLessThanOrEqual(50);
+    });
+
+    it('sends pushes ahead of reads and evicts the lowest priority when the queue is full', async () => {
+        const server = new MockWaxRpcServer()
+            .reply('get_info', {})
+            .reply('send_transaction', { processed: {} });
+        server.refuse();
+        const rpc = createClient(server, { maxQueueSize: 3, reconnectInterval: 20 });
+
+        const calls = Promise.allSettled([
+            rpc.call('get_info', { n: 1 }),
+            rpc.call('get_info', { n: 2 }),
+            rpc.call('get_info', { n: 3 }),
+            rpc.call('send_transaction', {}),
+            rpc.call('get_info', { n: 4 }),
+        ]);
+        await wait(10);
+        server.accept();
+
+        const settled = await calls;
+        expect(settled.map(result => result.status)).toEqual(['fulfilled', 'fulfilled', 'rejected', 'fulfilled', 'rejected']);
+        expect((settled[2] as PromiseRejectedResult).reason).toBeInstanceOf(WaxQueueOverflowError);
+        expect((settled[4] as PromiseRejectedResult).reason).toBeInstanceOf(WaxQueueOverflowError);
+        expect(server.requests.map(request => request.params?.n ?? request.method)).toEqual(['send_transaction', 1, 2]);
+    });
+
+    it('takes priorities from methodPriorities and the call options', async () => {
+        const server = new MockWaxRpcServer().reply('get_info', {}).reply('get_block', {});
+        server.refuse();
+        const rpc = createClient(server, { methodPriorities: { get_block: 5 }, reconnectInterval: 20 });
+
+        const calls = Promise.all([
+            rpc.call('get_info', { n: 1 }),
+            rpc.call('get_block', { block_num_or_id: 1 }),
+            rpc.call('get_info', { n: 2 }, { priority: 9 }),
+        ]);
+        await wait(10);
+        server.accept();
+        await calls;
+
+        expect(server.requests.map(request => request.params?.n ?? request.method)).toEqual([2, 'get_block', 1]);
+    });
+});
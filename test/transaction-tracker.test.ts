@@ -0,0 +1,101 @@
+import { MockWaxRpcServer, TransactionStage, WaxRpcAbortedError, WaxTransactionError } from '../src';
+import { closeClients, createClient } from './helpers';
+
+afterEach(closeClients);
+
+interface Chain {
+    head: number;
+    irreversible: number;
+    blocks: { [blockNum: number]: Array<{ status: string, trx: any }> };
+}
+
+// A chain whose head and blocks tests move by hand between polls.
+const chainServer = (chain: Chain) => new MockWaxRpcServer()
+    .reply('get_info', () => ({
+        head_block_num: chain.head,
+        head_block_time: '2024-01-01T00:00:00.000',
+        last_irreversible_block_num: chain.irreversible,
+        last_irreversible_block_time: '2024-01-01T00:00:00.000',
+    }))
+    .reply('get_block', (params: any) => ({
+        block_num: params.block_num_or_id,
+        transactions: chain.blocks[params.block_num_or_id] || [],
+    }));
+
+describe('TransactionTracker', () => {
+    it('finds a transaction included before tracking started', async () => {
+        const chain: Chain = { head: 12, irreversible: 9, blocks: { 10: [{ status: 'executed', trx: { id: 'tx' } }] } };
+        const server = chainServer(chain);
+        const rpc = createClient(server);
+        const stages: TransactionStage[] = [];
+
+        const tracker = rpc.trackTransaction('tx', { pollInterval: 10 });
+        tracker.on('stage', status => stages.push(status.stage));
+
+        await expect(tracker.included).resolves.toMatchObject({ stage: 'included', blockNum: 10 });
+        chain.irreversible = 10;
+
+        await expect(tracker.irreversible).resolves.toMatchObject({ stage: 'irreversible', blockNum: 10, lastIrreversibleBlock: 10 });
+        expect(stages).toEqual(['included', 'irreversible']);
+        expect(server.requests.find(request => request.method === 'get_block')?.params.block_num_or_id).toBe(9);
+    });
+
+    it('checks the block hint first', async () => {
+        const chain: Chain = { head: 500, irreversible: 100, blocks: { 400: [{ status: 'executed', trx: 'tx' }] } };
+        const server = chainServer(chain);
+        const rpc = createClient(server);
+
+        const tracker = rpc.trackTransaction('tx', { blockHint: 400, pollInterval: 10 });
+
+        await expect(tracker.included).resolves.toMatchObject({ blockNum: 400 });
+        expect(server.requests.filter(request => request.method === 'get_block')).toHaveLength(1);
+        tracker.stop();
+    });
+
+    it('rescans after a fork drops the block it was found in', async () => {
+        const chain: Chain = { head: 11, irreversible: 9, blocks: { 10: [{ status: 'executed', trx: 'tx' }] } };
+        const rpc = createClient(chainServer(chain));
+        const stages: TransactionStage[] = [];
+
+        const tracker = rpc.trackTransaction('tx', { pollInterval: 10 });
+        tracker.on('stage', status => stages.push(status.stage));
+        await tracker.included;
+
+        chain.blocks = { 11: [{ status: 'executed', trx: 'tx' }] };
+        chain.irreversible = 11;
+
+        await expect(tracker.irreversible).resolves.toMatchObject({ blockNum: 11 });
+        expect(stages).toEqual(['included', 'forked', 'included', 'irreversible']);
+    });
+
+    it('fails on a receipt that did not execute', async () => {
+        const chain: Chain = { head: 10, irreversible: 10, blocks: { 10: [{ status: 'hard_fail', trx: 'tx' }] } };
+        const rpc = createClient(chainServer(chain));
+
+        const error = await rpc.trackTransaction('tx', { pollInterval: 10 }).included.catch(e => e);
+
+        expect(error).toBeInstanceOf(WaxTransactionError);
+        expect(error).toMatchObject({ message: 'Transaction hard_fail', stage: 'failed', blockNum: 10 });
+    });
+
+    it('reports expiry once the last irreversible block passes the expiration', async () => {
+        const chain: Chain = { head: 10, irreversible: 10, blocks: {} };
+        const rpc = createClient(chainServer(chain));
+
+        const tracker = rpc.trackTransaction('tx', { expiration: '2023-12-31T23:59:00', pollInterval: 10 });
+
+        await expect(tracker.irreversible).rejects.toMatchObject({ name: 'WaxTransactionError', stage: 'expired' });
+        expect(tracker.current.stage).toBe('expired');
+    });
+
+    it('rejects both promises when stopped', async () => {
+        const chain: Chain = { head: 10, irreversible: 10, blocks: {} };
+        const rpc = createClient(chainServer(chain));
+
+        const tracker = rpc.trackTransaction('tx', { pollInterval: 10 });
+        tracker.stop();
+
+        await expect(tracker.included).rejects.toBeInstanceOf(WaxRpcAbortedError);
+        await expect(tracker.irreversible).rejects.toBeInstanceOf(WaxRpcAbortedError);
+    });
+});
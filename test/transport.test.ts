@@ -0,0 +1,68 @@
+class FakeSocket {
+    public args: any[];
+
+    constructor(...args: any[]) {
+        this.args = args;
+    }
+}
+
+class GlobalWebSocket extends FakeSocket {}
+class NodeWebSocket extends FakeSocket {}
+
+// Loads the transport against a stubbed 'ws' module; a factory that throws stands in for 'ws' not being installed.
+const loadTransport = (ws: () => any): typeof import('../src/transport') => {
+    jest.resetModules();
+    jest.doMock('ws', ws);
+    return require('../src/transport');
+};
+
+describe('WebSocketTransport', () => {
+    const original = (globalThis as any).WebSocket;
+
+    beforeEach(() => {
+        (globalThis as any).WebSocket = GlobalWebSocket;
+    });
+
+    afterEach(() => {
+        (globalThis as any).WebSocket = original;
+        jest.dontMock('ws');
+    });
+
+    it('uses the built-in WebSocket when no options need ws', () => {
+        const { WebSocketTransport } = loadTransport(() => NodeWebSocket);
+
+        const socket = new WebSocketTransport().open('ws://node', { protocols: 'wax' });
+
+        expect(socket).toBeInstanceOf(GlobalWebSocket);
+        expect((socket as any).args).toEqual(['ws://node', 'wax']);
+    });
+
+    it('uses ws for headers and perMessageDeflate', () => {
+        const { WebSocketTransport } = loadTransport(() => NodeWebSocket);
+
+        const withHeaders = new WebSocketTransport().open('ws://node', { headers: { Authorization: 'Bearer t' } });
+        const deflating = new WebSocketTransport(undefined, { perMessageDeflate: true }).open('ws://node');
+
+        expect(withHeaders).toBeInstanceOf(NodeWebSocket);
+        expect((withHeaders as any).args[2]).toEqual({ headers: { Authorization: 'Bearer t' } });
+        expect(deflating).toBeInstanceOf(NodeWebSocket);
+    });
+
+    it('refuses to drop headers when ws is missing', () => {
+        const { WebSocketTransport } = loadTransport(() => {
+            throw new Error("Cannot find module 'ws'");
+        });
+
+        expect(() => new WebSocketTransport().open('ws://node', { headers: { Authorization: 'Bearer t' } }))
+            .toThrow(/Custom headers need the "ws" package/);
+        expect(new WebSocketTransport(undefined, { perMessageDeflate: true }).open('ws://node')).toBeInstanceOf(GlobalWebSocket);
+    });
+
+    it('prefers an injected webSocketClass', () => {
+        const { WebSocketTransport } = loadTransport(() => NodeWebSocket);
+
+        const socket = new WebSocketTransport(FakeSocket).open('ws://node', { headers: { Authorization: 'Bearer t' } });
+
+        expect(socket.constructor).toBe(FakeSocket);
+    });
+});
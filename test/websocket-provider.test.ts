@@ -0,0 +1,79 @@
+import { APIProvider } from '@wharfkit/antelope';
+import { MockWaxRpcServer, WebSocketProvider } from '../src';
+import { closeClients, createClient } from './helpers';
+
+afterEach(closeClients);
+
+const httpStub = (): APIProvider & { calls: string[] } => {
+    const calls: string[] = [];
+    return {
+        calls,
+        call: async ({ path }) => {
+            calls.push(path);
+            return { status: 200, headers: {}, json: { via: 'http' }, text: '{"via":"http"}' };
+        },
+    };
+};
+
+describe('WebSocketProvider', () => {
+    beforeEach(() => {
+        jest.spyOn(console, 'warn').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it('routes the chain and history APIs over the socket and other paths over HTTP', () => {
+        const provider = new WebSocketProvider(createClient(new MockWaxRpcServer(), { autoConnect: false }));
+
+        expect(provider.route('/v1/chain/get_info')).toBe('ws');
+        expect(provider.route('/v1/chain/send_transaction')).toBe('ws-only');
+        expect(provider.route('/v1/history/get_actions')).toBe('ws');
+        expect(provider.route('/v1/producer/get_runtime_options')).toBe('http');
+    });
+
+    it('lets a route override the defaults', () => {
+        const provider = new WebSocketProvider(createClient(new MockWaxRpcServer(), { autoConnect: false }), null, {
+            routes: { '/v1/history/*': 'http', '/v1/history/get_transaction': 'ws-only' },
+        });
+
+        expect(provider.route('/v1/history/get_actions')).toBe('http');
+        expect(provider.route('/v1/history/get_transaction')).toBe('ws-only');
+    });
+
+    it('sends chain calls over the socket', async () => {
+        const server = new MockWaxRpcServer().reply('get_info', { head_block_num: 5 });
+        const http = httpStub();
+        const provider = new WebSocketProvider(createClient(server), http);
+
+        const response = await provider.call({ path: '/v1/chain/get_info' });
+
+        expect(response.json).toEqual({ head_block_num: 5 });
+        expect(http.calls).toEqual([]);
+    });
+
+    it('falls back to HTTP when the node does not know the method', async () => {
+        const server = new MockWaxRpcServer();
+        const http = httpStub();
+        const provider = new WebSocketProvider(createClient(server), http);
+
+        const response = await provider.call({ path: '/v1/history/get_actions', params: { account_name: 'alice' } });
+
+        expect(response.json).toEqual({ via: 'http' });
+        expect(server.requests.map(request => request.method)).toEqual(['history/get_actions']);
+        expect(http.calls).toEqual(['/v1/history/get_actions']);
+    });
+
+    it('returns other node errors without asking HTTP', async () => {
+        const server = new MockWaxRpcServer().fail('get_account', { code: 3060002, name: 'account_query_exception', what: 'Account Query Exception' });
+        const http = httpStub();
+        const provider = new WebSocketProvider(createClient(server), http);
+
+        const response = await provider.call({ path: '/v1/chain/get_account', params: { account_name: 'nobody' } });
+
+        expect(response.status).toBe(500);
+        expect(response.json.error).toMatchObject({ code: 3060002, name: 'account_query_exception' });
+        expect(http.calls).toEqual([]);
+    });
+});
@@ -17,6 +17,23 @@ const commonConfig = {
   },
 };
 
+// The module builds need ES module output from TypeScript so webpack can emit named exports.
+const esModuleRules = {
+  rules: [
+    {
+      test: /\.tsx?$/,
+      loader: 'ts-loader',
+      exclude: /node_modules/,
+      options: {
+        compilerOptions: {
+          module: 'ES2020',
+          declaration: false,
+        },
+      },
+    },
+  ],
+};
+
 const nodeConfig = Object.assign({}, commonConfig, {
   name: 'server',
   target: 'node',
@@ -36,6 +53,53 @@ const nodeConfig = Object.assign({}, commonConfig, {
   }
 });
 
+const esmConfig = Object.assign({}, commonConfig, {
+  name: 'esm',
+  target: 'node',
+  module: esModuleRules,
+  experiments: {
+    outputModule: true,
+  },
+  externalsType: 'module',
+  externals: {
+    // Loaded through createRequire only when no global WebSocket exists.
+    ws: 'node-commonjs ws',
+    'eosjs': 'eosjs',
+    '@wharfkit/antelope': '@wharfkit/antelope'
+  },
+  output: {
+    filename: 'index.mjs',
+    path: path.resolve(__dirname, 'dist'),
+    library: {
+      type: 'module',
+    },
+  }
+});
 
+const browserConfig = Object.assign({}, commonConfig, {
+  name: 'browser',
+  target: 'web',
+  module: esModuleRules,
+  experiments: {
+    outputModule: true,
+  },
+  externalsType: 'module',
+  externals: {
+    'eosjs': 'eosjs',
+    '@wharfkit/antelope': '@wharfkit/antelope'
+  },
+  resolve: Object.assign({}, commonConfig.resolve, {
+    alias: {
+      ws: false,
+    },
+  }),
+  output: {
+    filename: 'index.browser.mjs',
+    path: path.resolve(__dirname, 'dist'),
+    library: {
+      type: 'module',
+    },
+  }
+});
 
-module.exports = nodeConfig;
\ No newline at end of file
+module.exports = [nodeConfig, esmConfig, browserConfig];
\ No newline at end of file